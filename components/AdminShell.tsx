@@ -0,0 +1,94 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { LogOut } from 'lucide-react';
+
+interface AdminShellProps {
+  title: string;
+  // signOut is for when the API rejects the token
+  children: (token: string, signOut: (message?: string) => void) => ReactNode;
+}
+
+// The token only lives for the browser tab
+const TOKEN_KEY = 'ama-northstowe:admin-token';
+
+const ADMIN_PAGES = [
+  { href: '/admin/feedback', label: 'Feedback' },
+  { href: '/admin/announcements', label: 'Announcements' },
+  { href: '/admin/api-keys', label: 'API Keys' },
+];
+
+// Layout and ADMIN_TOKEN sign-in shared by the moderator pages
+export default function AdminShell({ title, children }: AdminShellProps) {
+  const [token, setToken] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    setToken(window.sessionStorage.getItem(TOKEN_KEY) || '');
+  }, []);
+
+  // Stable, since pages list it as an effect dependency
+  const signOut = useCallback((message?: string) => {
+    window.sessionStorage.removeItem(TOKEN_KEY);
+    setToken('');
+    setNotice(message || '');
+  }, []);
+
+  return (
+    <>
+      <Head>
+        <title>{`${title} - AMA Northstowe`}</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              {title}
+            </h1>
+            <nav className="flex gap-3 text-sm">
+              {ADMIN_PAGES.map(page => (
+                <Link key={page.href} href={page.href} className="text-blue-700 hover:underline">
+                  {page.label}
+                </Link>
+              ))}
+            </nav>
+            {token && (
+              <button type="button" onClick={() => signOut()} className="ml-auto flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+                <LogOut className="h-4 w-4" />
+                Sign out
+              </button>
+            )}
+          </div>
+
+          {notice && <p className="p-3 text-sm bg-red-50 border border-red-200 rounded-lg text-red-800">{notice}</p>}
+
+          {token ? children(token, signOut) : (
+            <form
+              className="flex gap-2"
+              onSubmit={event => {
+                event.preventDefault();
+                window.sessionStorage.setItem(TOKEN_KEY, tokenInput.trim());
+                setToken(tokenInput.trim());
+                setNotice('');
+              }}
+            >
+              <input
+                type="password"
+                value={tokenInput}
+                onChange={event => setTokenInput(event.target.value)}
+                placeholder="Admin token"
+                aria-label="Admin token"
+                className="flex-1 p-2 border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button type="submit" disabled={!tokenInput.trim()} className="px-4 py-2 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50">
+                Sign in
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+import { Megaphone, Pin } from 'lucide-react';
+import type { Announcement } from '@/lib/chatClient';
+import { useMessages } from '@/lib/i18n/context';
+
+interface AnnouncementBannerProps {
+  announcements: Announcement[];
+}
+
+// Moderator notices currently in force, shown above the chat
+export default function AnnouncementBanner({ announcements }: AnnouncementBannerProps) {
+  const t = useMessages();
+  if (announcements.length === 0) return null;
+
+  return (
+    <ul className="mb-4 space-y-2" aria-label={t.announcementsLabel}>
+      {announcements.map(announcement => (
+        <li
+          key={announcement.id}
+          className={`flex items-start gap-2 p-3 text-sm rounded-xl border ${
+            announcement.kind === 'fact'
+              ? 'bg-purple-50 border-purple-200 text-purple-900'
+              : 'bg-amber-50 border-amber-200 text-amber-900'
+          }`}
+        >
+          {announcement.kind === 'fact'
+            ? <Pin className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            : <Megaphone className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+          <span>{announcement.text}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { apiErrorMessage, postFeedback } from '@/lib/chatClient';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+import { useMessages } from '@/lib/i18n/context';
+
+interface AnswerFeedbackProps {
+  answerId: string;
+  rating?: 'up' | 'down';
+  onRated: (rating: 'up' | 'down') => void;
+}
+
+// Thumbs up/down under an answer. A thumbs down also asks what was wrong,
+// which is optional and sent as a second rating with the note.
+export default function AnswerFeedback({ answerId, rating, onRated }: AnswerFeedbackProps) {
+  const t = useMessages();
+  const [showNote, setShowNote] = useState(false);
+  const [note, setNote] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'thanks' | 'failed'>('idle');
+  const [failure, setFailure] = useState<Partial<ApiErrorBody>>({});
+
+  const rate = async (value: 'up' | 'down', noteText?: string) => {
+    setStatus('sending');
+    const result = await postFeedback(answerId, value, noteText);
+    if (result.status !== 200) {
+      setFailure(result.data);
+      setStatus('failed');
+      return;
+    }
+    onRated(value);
+    setShowNote(value === 'down' && !noteText);
+    setStatus(value === 'up' || noteText ? 'thanks' : 'idle');
+  };
+
+  const buttonClass = (value: 'up' | 'down') =>
+    `p-1 rounded hover:text-gray-900 disabled:cursor-not-allowed ${rating === value ? 'text-blue-600' : 'text-gray-400'}`;
+
+  return (
+    <div className="mt-2 text-xs text-gray-600">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => rate('up')}
+          disabled={status === 'sending'}
+          aria-label={t.feedback.helpful}
+          aria-pressed={rating === 'up'}
+          className={buttonClass('up')}
+        >
+          <ThumbsUp className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => rate('down')}
+          disabled={status === 'sending'}
+          aria-label={t.feedback.unhelpful}
+          aria-pressed={rating === 'down'}
+          className={buttonClass('down')}
+        >
+          <ThumbsDown className="h-3.5 w-3.5" />
+        </button>
+        {status === 'thanks' && <span className="ml-1">{t.feedback.thanks}</span>}
+        {status === 'failed' && <span className="ml-1 text-red-700">{apiErrorMessage(failure, t, t.feedback.failed)}</span>}
+      </div>
+
+      {showNote && (
+        <form
+          className="mt-2 flex flex-col gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            if (note.trim()) {
+              rate('down', note.trim());
+            } else {
+              setShowNote(false);
+            }
+          }}
+        >
+          <label htmlFor={`feedback-${answerId}`}>{t.feedback.whatWasWrong}</label>
+          <textarea
+            id={`feedback-${answerId}`}
+            value={note}
+            onChange={event => setNote(event.target.value)}
+            maxLength={1000}
+            rows={2}
+            className="p-2 border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={status === 'sending'}
+              className="px-3 py-1 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50"
+            >
+              {t.feedback.send}
+            </button>
+            <button type="button" onClick={() => setShowNote(false)} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+              {t.feedback.skip}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { AlertTriangle, ExternalLink, BookOpen } from 'lucide-react';
+import type { Citation } from '@/lib/citations';
+import { useMessages } from '@/lib/i18n/context';
+import { sanitizeHref } from '@/lib/markdown';
+
+interface FootnoteMarkerProps {
+  messageId: string;
+  citation: Citation;
+}
+
+interface SourcesListProps {
+  messageId: string;
+  citations: Citation[];
+}
+
+function sourceAnchor(messageId: string, index: number): string {
+  return `source-${messageId}-${index}`;
+}
+
+// Superscript link from a [n] marker in the answer to its entry in the sources list
+export function FootnoteMarker({ messageId, citation }: FootnoteMarkerProps) {
+  return (
+    <sup>
+      <a
+        href={`#${sourceAnchor(messageId, citation.index)}`}
+        title={citation.title || citation.domain}
+        className={`px-0.5 font-medium no-underline ${citation.trusted ? 'text-blue-600' : 'text-amber-600'}`}
+      >
+        [{citation.index}]
+      </a>
+    </sup>
+  );
+}
+
+export function SourcesList({ messageId, citations }: SourcesListProps) {
+  const t = useMessages();
+  if (citations.length === 0) {
+    return null;
+  }
+
+  const untrustedCount = citations.filter(c => !c.trusted).length;
+
+  return (
+    <details className="mt-3 text-xs border-t border-gray-200 pt-2">
+      <summary className="cursor-pointer select-none flex items-center gap-1 text-gray-600 hover:text-gray-800">
+        <BookOpen className="h-3 w-3" />
+        {t.sources.count(citations.length)}
+        {untrustedCount > 0 && (
+          <span className="ml-1 text-amber-700">
+            ({t.sources.notOfficial(untrustedCount)})
+          </span>
+        )}
+      </summary>
+      <ol className="mt-2 space-y-1">
+        {citations.map(citation => {
+          // Source URLs come from the model and provider, so they are checked
+          // like links in the answer; a rejected one is shown as plain text
+          const href = citation.url ? sanitizeHref(citation.url) : null;
+          return (
+            <li
+              key={citation.index}
+              id={sourceAnchor(messageId, citation.index)}
+              className="flex items-start gap-1"
+            >
+              <span className="text-gray-500">{citation.index}.</span>
+              {href ? (
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline break-all inline-flex items-center gap-1"
+                >
+                  {citation.title || citation.domain}
+                  <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                </a>
+              ) : (
+                <span className="text-gray-700">{citation.title || citation.domain}</span>
+              )}
+              {citation.title && href && <span className="text-gray-500">({citation.domain})</span>}
+              {!citation.trusted && (
+                <span
+                  className="inline-flex items-center gap-0.5 text-amber-700"
+                  title={t.sources.unofficialTitle}
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  {t.sources.unofficial}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Check, FileJson, FileText, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Conversation, isDefaultTitle } from '@/lib/chatStorage';
+import { useMessages } from '@/lib/i18n/context';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string;
+  disabled: boolean; // switching is blocked while an answer is streaming
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: 'markdown' | 'json') => void;
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onExport,
+}: ConversationSidebarProps) {
+  const t = useMessages();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  // Untitled conversations are stored with the English default
+  const displayTitle = (conversation: Conversation) =>
+    isDefaultTitle(conversation.title) ? t.conversations.newConversation : conversation.title;
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(displayTitle(conversation));
+  };
+
+  const finishRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = (conversation: Conversation) => {
+    if (window.confirm(t.conversations.confirmDelete(displayTitle(conversation)))) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <nav aria-label={t.conversations.label} className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-3 flex flex-col gap-2">
+      <button
+        type="button"
+        onClick={onNew}
+        disabled={disabled}
+        className="flex items-center justify-center gap-2 p-2 text-sm font-medium text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="h-4 w-4" />
+        {t.conversations.newConversation}
+      </button>
+
+      <ul className="flex flex-col gap-1 max-h-[60vh] overflow-y-auto">
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeId;
+          return (
+            <li
+              key={conversation.id}
+              className={`group rounded-lg text-sm ${isActive ? 'bg-blue-50 border border-blue-100' : 'hover:bg-gray-50 border border-transparent'}`}
+            >
+              {editingId === conversation.id ? (
+                <form
+                  className="flex items-center gap-1 p-1"
+                  onSubmit={event => {
+                    event.preventDefault();
+                    finishRename();
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    maxLength={80}
+                    onChange={event => setDraftTitle(event.target.value)}
+                    onKeyDown={event => {
+                      if (event.key === 'Escape') setEditingId(null);
+                    }}
+                    aria-label={t.conversations.nameLabel}
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  <button type="submit" aria-label={t.conversations.saveName} className="p-1 text-gray-600 hover:text-blue-600">
+                    <Check className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => setEditingId(null)} aria-label={t.conversations.cancelRename} className="p-1 text-gray-600 hover:text-gray-900">
+                    <X className="h-4 w-4" />
+                  </button>
+                </form>
+              ) : (
+                <div className="flex items-center gap-1 p-1">
+                  <button
+                    type="button"
+                    onClick={() => onSelect(conversation.id)}
+                    disabled={disabled && !isActive}
+                    aria-current={isActive ? 'true' : undefined}
+                    className="flex-1 min-w-0 flex items-center gap-2 px-1 py-1 text-left text-gray-700 disabled:cursor-not-allowed"
+                  >
+                    <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                    <span className="truncate">{displayTitle(conversation)}</span>
+                  </button>
+                  <div className={`flex items-center ${isActive ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+                    {isActive && (
+                      <>
+                        <button type="button" onClick={() => onExport(conversation.id, 'markdown')} title={t.conversations.exportMarkdown} aria-label={t.conversations.exportMarkdown} className="p-1 text-gray-500 hover:text-blue-600">
+                          <FileText className="h-4 w-4" />
+                        </button>
+                        <button type="button" onClick={() => onExport(conversation.id, 'json')} title={t.conversations.exportJson} aria-label={t.conversations.exportJson} className="p-1 text-gray-500 hover:text-blue-600">
+                          <FileJson className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                    <button type="button" onClick={() => startRename(conversation)} title={t.conversations.rename} aria-label={t.conversations.renameLabel} className="p-1 text-gray-500 hover:text-blue-600">
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button type="button" onClick={() => confirmDelete(conversation)} disabled={disabled && isActive} title={t.conversations.delete} aria-label={t.conversations.deleteLabel} className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { LocateFixed, MapPin, X } from 'lucide-react';
+import { fetchStreets } from '@/lib/chatClient';
+import { roundCoordinate } from '@/lib/chatStorage';
+import type { UserLocation } from '@/lib/places';
+import type { Messages } from '@/lib/i18n';
+import { useMessages } from '@/lib/i18n/context';
+
+interface LocationSettingProps {
+  location: UserLocation | null;
+  onChange: (location: UserLocation | null) => void;
+}
+
+function describeLocation(location: UserLocation | null, t: Messages): string {
+  if (!location) return t.location.set;
+  return location.street ? t.location.near(location.street) : t.location.usingYours;
+}
+
+// Opt-in "use my location" or "my street" setting for nearest-place answers.
+// Nothing is shared until the resident chooses one.
+export default function LocationSetting({ location, onChange }: LocationSettingProps) {
+  const t = useMessages();
+  const [isOpen, setIsOpen] = useState(false);
+  const [streets, setStreets] = useState<string[]>([]);
+  const [street, setStreet] = useState('');
+  const [status, setStatus] = useState<'idle' | 'locating' | 'denied' | 'unknown-street'>('idle');
+
+  useEffect(() => {
+    if (isOpen && streets.length === 0) {
+      fetchStreets().then(setStreets);
+    }
+  }, [isOpen, streets.length]);
+
+  const choose = (value: UserLocation | null) => {
+    onChange(value);
+    setStatus('idle');
+    setIsOpen(false);
+  };
+
+  const useMyLocation = () => {
+    if (!navigator.geolocation) {
+      setStatus('denied');
+      return;
+    }
+    setStatus('locating');
+    navigator.geolocation.getCurrentPosition(
+      position => choose({ lat: roundCoordinate(position.coords.latitude), lon: roundCoordinate(position.coords.longitude) }),
+      () => setStatus('denied'),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
+  const saveStreet = () => {
+    const match = streets.filter(name => name.toLowerCase() === street.trim().toLowerCase())[0];
+    if (!match) {
+      setStatus('unknown-street');
+      return;
+    }
+    choose({ street: match });
+  };
+
+  return (
+    <div className="relative ml-auto">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className={`flex items-center gap-1 px-3 py-2 text-sm rounded-lg border ${
+          location ? 'border-blue-200 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <MapPin className="h-4 w-4" />
+        <span className="hidden sm:inline">{describeLocation(location, t)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 p-4 space-y-3 text-sm bg-white rounded-xl shadow-xl border border-gray-200 z-20">
+          <p className="text-gray-600">
+            {t.location.explanation}
+          </p>
+
+          <button
+            type="button"
+            onClick={useMyLocation}
+            disabled={status === 'locating'}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50"
+          >
+            <LocateFixed className="h-4 w-4" />
+            {status === 'locating' ? t.location.finding : t.location.useMine}
+          </button>
+          {status === 'denied' && <p className="text-red-700">{t.location.unavailable}</p>}
+
+          <form
+            className="flex gap-2"
+            onSubmit={event => {
+              event.preventDefault();
+              saveStreet();
+            }}
+          >
+            <input
+              type="text"
+              list="northstowe-streets"
+              value={street}
+              onChange={event => setStreet(event.target.value)}
+              placeholder={t.location.myStreet}
+              aria-label={t.location.myStreet}
+              className="flex-1 min-w-0 p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <datalist id="northstowe-streets">
+              {streets.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <button type="submit" disabled={!street.trim()} className="px-3 py-2 text-blue-700 border border-blue-200 rounded-lg disabled:opacity-50">
+              {t.location.save}
+            </button>
+          </form>
+          {status === 'unknown-street' && <p className="text-red-700">{t.location.unknownStreet}</p>}
+
+          {location && (
+            <button type="button" onClick={() => choose(null)} className="flex items-center gap-1 text-gray-600 hover:text-gray-900">
+              <X className="h-4 w-4" />
+              {t.location.stop}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
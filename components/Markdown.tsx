@@ -0,0 +1,146 @@
+import { ReactNode } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownProps {
+  text: string;
+  renderFootnote?: (index: number, key: string) => ReactNode;
+}
+
+const HEADING_CLASSES = [
+  'text-lg font-bold',
+  'text-base font-bold',
+  'text-sm font-bold',
+  'text-sm font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-medium',
+];
+
+function renderInline(
+  nodes: InlineNode[],
+  keyPrefix: string,
+  renderFootnote?: MarkdownProps['renderFootnote']
+): ReactNode[] {
+  return nodes.map((node, i) => {
+    const key = `${keyPrefix}-${i}`;
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={key} />;
+      case 'strong':
+        return <strong key={key}>{renderInline(node.children, key, renderFootnote)}</strong>;
+      case 'em':
+        return <em key={key}>{renderInline(node.children, key, renderFootnote)}</em>;
+      case 'code':
+        return <code key={key} className="px-1 py-0.5 bg-white/70 rounded text-[0.85em] font-mono">{node.text}</code>;
+      case 'link':
+        return (
+          <a
+            key={key}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline break-words hover:text-blue-800"
+          >
+            {renderInline(node.children, key, renderFootnote)}
+          </a>
+        );
+      case 'footnote':
+        return renderFootnote ? renderFootnote(node.index, key) : `[${node.index}]`;
+    }
+  });
+}
+
+function renderBlocks(
+  blocks: BlockNode[],
+  keyPrefix: string,
+  renderFootnote?: MarkdownProps['renderFootnote']
+): ReactNode[] {
+  return blocks.map((block, i) => {
+    const key = `${keyPrefix}-${i}`;
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return (
+          <Tag key={key} className={HEADING_CLASSES[block.level - 1]}>
+            {renderInline(block.children, key, renderFootnote)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return <p key={key}>{renderInline(block.children, key, renderFootnote)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => {
+          const itemKey = `${key}-${j}`;
+          // Render a lone paragraph inline so tight lists don't get extra spacing
+          const content = item.length === 1 && item[0].type === 'paragraph'
+            ? renderInline(item[0].children, itemKey, renderFootnote)
+            : renderBlocks(item, itemKey, renderFootnote);
+          return <li key={itemKey} className="space-y-1">{content}</li>;
+        });
+        return block.ordered
+          ? <ol key={key} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+          : <ul key={key} className="list-disc pl-5 space-y-1">{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={key} className="overflow-x-auto">
+            <table className="min-w-full text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th
+                      key={j}
+                      style={{ textAlign: block.align[j] || 'left' }}
+                      className="border-b border-gray-300 px-2 py-1 font-semibold"
+                    >
+                      {renderInline(cell, `${key}-h${j}`, renderFootnote)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="even:bg-white/50">
+                    {row.map((cell, j) => (
+                      <td
+                        key={j}
+                        style={{ textAlign: block.align[j] || 'left' }}
+                        className="border-b border-gray-200 px-2 py-1 align-top"
+                      >
+                        {renderInline(cell, `${key}-${r}-${j}`, renderFootnote)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'code':
+        return (
+          <pre key={key} className="p-3 bg-white/70 rounded-lg overflow-x-auto text-xs font-mono">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="border-l-4 border-gray-300 pl-3 text-gray-700 space-y-2">
+            {renderBlocks(block.children, key, renderFootnote)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={key} className="border-gray-300" />;
+    }
+  });
+}
+
+// Renders assistant markdown as React elements. Raw HTML in the source is shown
+// as text and links are limited to http(s), mailto and tel.
+export default function Markdown({ text, renderFootnote }: MarkdownProps) {
+  return (
+    <div className="text-sm leading-relaxed space-y-2 break-words">
+      {renderBlocks(parseMarkdown(text), 'md', renderFootnote)}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import {
+  ReminderOptions,
+  ReminderSubscription,
+  SubscriptionResult,
+  apiErrorMessage,
+  fetchReminderOptions,
+  sendSubscriptionRequest
+} from '@/lib/chatClient';
+import { loadReminderToken, saveReminderToken } from '@/lib/chatStorage';
+import type { NotificationTopic } from '@/lib/subscriptions';
+import type { Locale } from '@/lib/i18n';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+import { useMessages } from '@/lib/i18n/context';
+import ReminderFields from '@/components/ReminderFields';
+
+interface NotificationSettingsProps {
+  locale: Locale;
+}
+
+type Status = 'idle' | 'working' | 'saved' | 'check-email' | 'push-blocked' | 'failed';
+
+// pushManager.subscribe wants the VAPID key as bytes
+function keyToBytes(base64url: string): ArrayBuffer {
+  const base64 = `${base64url}${'='.repeat((4 - (base64url.length % 4)) % 4)}`.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function supportsPush(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// Asks for permission and subscribes this browser with the service worker in
+// public/sw.js; null when the resident says no
+async function subscribeBrowser(publicKey: string): Promise<PushSubscriptionJSON | null> {
+  if ((await Notification.requestPermission()) !== 'granted') {
+    return null;
+  }
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyToBytes(publicKey) }));
+  return subscription.toJSON();
+}
+
+async function unsubscribeBrowser(): Promise<void> {
+  const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+  const subscription = registration ? await registration.pushManager.getSubscription() : null;
+  if (subscription) {
+    await subscription.unsubscribe();
+  }
+}
+
+// Opt-in bin, meeting and announcement reminders, by push to this browser or
+// an email digest. Email subscriptions are managed from the emailed link.
+export default function NotificationSettings({ locale }: NotificationSettingsProps) {
+  const t = useMessages();
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ReminderOptions | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [topics, setTopics] = useState<NotificationTopic[]>(['bins']);
+  const [street, setStreet] = useState('');
+  const [channel, setChannel] = useState<'push' | 'email'>('push');
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [failure, setFailure] = useState<Partial<ApiErrorBody>>({});
+
+  useEffect(() => {
+    setToken(loadReminderToken());
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || options) return;
+    fetchReminderOptions().then(loaded => {
+      setOptions(loaded);
+      if (loaded && (!loaded.channels.push || !supportsPush())) {
+        setChannel('email');
+      }
+    });
+  }, [isOpen, options]);
+
+  // Show what this browser is already subscribed to
+  useEffect(() => {
+    if (!isOpen || !token) return;
+    sendSubscriptionRequest('GET', '', token).then(result => {
+      if (result.status === 404) {
+        saveReminderToken(null);
+        setToken(null);
+        return;
+      }
+      const subscription = result.data.subscription;
+      if (subscription) {
+        setTopics(subscription.topics);
+        setStreet(subscription.street || '');
+      }
+    });
+  }, [isOpen, token]);
+
+  const pushAvailable = !!options && !!options.channels.push && supportsPush();
+  const emailAvailable = !!options && options.channels.email;
+
+  const fail = (result: SubscriptionResult) => {
+    setFailure(result.data);
+    setStatus('failed');
+  };
+
+  const handleResult = (result: SubscriptionResult, success: Status) => {
+    if (result.status >= 200 && result.status < 300) {
+      setStatus(success);
+    } else {
+      fail(result);
+    }
+  };
+
+  const preferences = () => ({ topics, street: street.trim() || undefined, locale });
+
+  const subscribe = async () => {
+    setStatus('working');
+    if (channel === 'email') {
+      handleResult(await sendSubscriptionRequest('POST', '', undefined, { ...preferences(), channel, email }), 'check-email');
+      return;
+    }
+
+    let push: PushSubscriptionJSON | null = null;
+    try {
+      push = await subscribeBrowser(options && options.channels.push ? options.channels.push.publicKey : '');
+    } catch (error) {
+      console.error('Failed to subscribe to push:', error);
+    }
+    if (!push) {
+      setStatus('push-blocked');
+      return;
+    }
+    const result = await sendSubscriptionRequest('POST', '', undefined, { ...preferences(), channel, push });
+    if (result.data.token) {
+      saveReminderToken(result.data.token);
+      setToken(result.data.token);
+    }
+    handleResult(result, 'saved');
+  };
+
+  const save = async () => {
+    setStatus('working');
+    handleResult(await sendSubscriptionRequest('PUT', '', token || undefined, preferences()), 'saved');
+  };
+
+  const unsubscribe = async () => {
+    setStatus('working');
+    const result = await sendSubscriptionRequest('DELETE', '', token || undefined);
+    if (result.status !== 200 && result.status !== 404) {
+      fail(result);
+      return;
+    }
+    try {
+      await unsubscribeBrowser();
+    } catch (error) {
+      console.error('Failed to unsubscribe from push:', error);
+    }
+    saveReminderToken(null);
+    setToken(null);
+    setStatus('idle');
+  };
+
+  const canSubmit = topics.length > 0 && (topics.indexOf('bins') === -1 || !!street.trim()) &&
+    (token || channel === 'push' || !!email.trim()) && status !== 'working';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-label={t.notifications.label}
+        className={`flex items-center gap-1 px-3 py-2 text-sm rounded-lg border ${
+          token ? 'border-blue-200 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <Bell className="h-4 w-4" />
+        <span className="hidden sm:inline">{t.notifications.label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 p-4 space-y-3 text-sm bg-white rounded-xl shadow-xl border border-gray-200 z-20">
+          <p className="text-gray-600">
+            {token ? t.notifications.subscribed : t.notifications.intro}
+          </p>
+
+          {options && !pushAvailable && !emailAvailable && !token ? (
+            <p className="text-gray-600">{t.notifications.unavailable}</p>
+          ) : (
+            <form
+              className="space-y-3"
+              onSubmit={event => {
+                event.preventDefault();
+                if (token) {
+                  save();
+                } else {
+                  subscribe();
+                }
+              }}
+            >
+              <ReminderFields topics={topics} street={street} onTopicsChange={setTopics} onStreetChange={setStreet} />
+
+              {!token && (
+                <fieldset className="space-y-1">
+                  {pushAvailable && (
+                    <label className="flex items-center gap-2 text-gray-700">
+                      <input type="radio" name="reminder-channel" checked={channel === 'push'} onChange={() => setChannel('push')} />
+                      {t.notifications.push}
+                    </label>
+                  )}
+                  {emailAvailable && (
+                    <label className="flex items-center gap-2 text-gray-700">
+                      <input type="radio" name="reminder-channel" checked={channel === 'email'} onChange={() => setChannel('email')} />
+                      {t.notifications.email}
+                    </label>
+                  )}
+                  {channel === 'email' && emailAvailable && (
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={event => setEmail(event.target.value)}
+                      placeholder={t.notifications.emailAddress}
+                      aria-label={t.notifications.emailAddress}
+                      className="w-full p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  )}
+                </fieldset>
+              )}
+
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50"
+              >
+                <Bell className="h-4 w-4" />
+                {token ? t.notifications.save : t.notifications.subscribe}
+              </button>
+            </form>
+          )}
+
+          {status === 'saved' && <p className="text-green-700">{t.notifications.saved}</p>}
+          {status === 'check-email' && <p className="text-green-700">{t.notifications.checkEmail}</p>}
+          {status === 'push-blocked' && <p className="text-red-700">{t.notifications.pushBlocked}</p>}
+          {status === 'failed' && <p className="text-red-700">{apiErrorMessage(failure, t, t.notifications.failed)}</p>}
+
+          {token && (
+            <button type="button" onClick={unsubscribe} disabled={status === 'working'} className="flex items-center gap-1 text-gray-600 hover:text-gray-900">
+              <BellOff className="h-4 w-4" />
+              {t.notifications.unsubscribe}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
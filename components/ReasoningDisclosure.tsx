@@ -0,0 +1,23 @@
+import { Brain } from 'lucide-react';
+import { useMessages } from '@/lib/i18n/context';
+
+interface ReasoningDisclosureProps {
+  reasoning: string;
+  isThinking: boolean;
+}
+
+// The model's <think> block, collapsed by default so residents see the answer first
+export default function ReasoningDisclosure({ reasoning, isThinking }: ReasoningDisclosureProps) {
+  const t = useMessages();
+  return (
+    <details className="mb-2 text-xs text-gray-600">
+      <summary className="cursor-pointer select-none flex items-center gap-1 hover:text-gray-800">
+        <Brain className={`h-3 w-3 ${isThinking ? 'animate-pulse-slow' : ''}`} />
+        {isThinking ? t.reasoning.thinking : t.reasoning.show}
+      </summary>
+      <p className="mt-2 p-2 bg-white/60 rounded-lg border border-gray-200 whitespace-pre-wrap leading-relaxed max-h-60 overflow-y-auto">
+        {reasoning}
+      </p>
+    </details>
+  );
+}
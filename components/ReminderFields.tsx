@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { fetchStreets } from '@/lib/chatClient';
+import type { NotificationTopic } from '@/lib/subscriptions';
+import { useMessages } from '@/lib/i18n/context';
+
+interface ReminderFieldsProps {
+  topics: NotificationTopic[];
+  street: string;
+  onTopicsChange: (topics: NotificationTopic[]) => void;
+  onStreetChange: (street: string) => void;
+}
+
+const TOPICS: NotificationTopic[] = ['bins', 'meetings', 'announcements'];
+
+// Topic checkboxes and the street for bin days, shared by the header popover
+// and the page linked from reminder emails
+export default function ReminderFields({ topics, street, onTopicsChange, onStreetChange }: ReminderFieldsProps) {
+  const t = useMessages();
+  const [streets, setStreets] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchStreets().then(setStreets);
+  }, []);
+
+  const toggle = (topic: NotificationTopic) => {
+    onTopicsChange(topics.indexOf(topic) === -1
+      ? TOPICS.filter(candidate => candidate === topic || topics.indexOf(candidate) !== -1)
+      : topics.filter(candidate => candidate !== topic));
+  };
+
+  return (
+    <>
+      <fieldset className="space-y-1">
+        {TOPICS.map(topic => (
+          <label key={topic} className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={topics.indexOf(topic) !== -1} onChange={() => toggle(topic)} />
+            {t.notifications.topics[topic]}
+          </label>
+        ))}
+      </fieldset>
+
+      {topics.indexOf('bins') !== -1 && (
+        <>
+          <input
+            type="text"
+            list="reminder-streets"
+            value={street}
+            onChange={event => onStreetChange(event.target.value)}
+            placeholder={t.notifications.street}
+            aria-label={t.notifications.street}
+            className="w-full p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <datalist id="reminder-streets">
+            {streets.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </>
+      )}
+    </>
+  );
+}
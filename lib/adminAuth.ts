@@ -0,0 +1,22 @@
+import { timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+
+// True when the request carries "Authorization: Bearer <token>"; never when
+// the token is unset
+export function hasBearerToken(req: IncomingMessage, token: string | undefined): boolean {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!token || !match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Admin endpoints expect "Authorization: Bearer <ADMIN_TOKEN>". With no
+// ADMIN_TOKEN configured they are disabled rather than open.
+export function isAdminRequest(req: IncomingMessage): boolean {
+  return hasBearerToken(req, process.env.ADMIN_TOKEN);
+}
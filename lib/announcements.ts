@@ -0,0 +1,163 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { QUERY_INTENTS } from '@/lib/intents';
+import { cleanText } from '@/lib/chatRequest';
+import { createJsonFileStore } from '@/lib/jsonFileStore';
+
+// Announcements are news for residents (a road closure); pinned facts are
+// corrections the model must respect (a new GP opening date). Both show in the
+// site banner and are added to the system prompt while they are active.
+export type NoticeKind = 'announcement' | 'fact';
+
+export interface Notice {
+  id: string;
+  kind: NoticeKind;
+  text: string;
+  topic: string; // an intent id, or "all"
+  startsAt: string; // ISO timestamps
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NoticeInput = Pick<Notice, 'kind' | 'text' | 'topic' | 'expiresAt'> & { startsAt?: string };
+
+export type NoticeValidation =
+  | { ok: true; value: NoticeInput }
+  | { ok: false; error: string; field: string };
+
+interface NoticesFile {
+  notices: Notice[];
+}
+
+export const ALL_TOPICS = 'all';
+export const MAX_NOTICE_LENGTH = 500;
+const MAX_NOTICE_DAYS = 366;
+
+// ANNOUNCEMENTS_FILE sets the path; the default sits beside the other stores
+const store = createJsonFileStore<NoticesFile>(
+  'announcements',
+  () => process.env.ANNOUNCEMENTS_FILE || path.join(process.cwd(), '.data', 'announcements.json'),
+  () => ({ notices: [] })
+);
+
+export function getNoticeTopics(): string[] {
+  return [ALL_TOPICS].concat(QUERY_INTENTS.map(intent => intent.id));
+}
+
+function isActive(notice: Notice, now: number): boolean {
+  return new Date(notice.startsAt).getTime() <= now && new Date(notice.expiresAt).getTime() > now;
+}
+
+export function validateNotice(body: unknown, now: number = Date.now()): NoticeValidation {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (raw.kind !== 'announcement' && raw.kind !== 'fact') {
+    return { ok: false, error: 'kind must be "announcement" or "fact"', field: 'kind' };
+  }
+
+  const text = typeof raw.text === 'string' ? cleanText(raw.text).replace(/\s+/g, ' ').trim() : '';
+  if (!text) {
+    return { ok: false, error: 'text is required', field: 'text' };
+  }
+  if (text.length > MAX_NOTICE_LENGTH) {
+    return { ok: false, error: `text must be at most ${MAX_NOTICE_LENGTH} characters`, field: 'text' };
+  }
+
+  const topic = typeof raw.topic === 'string' ? raw.topic : ALL_TOPICS;
+  if (getNoticeTopics().indexOf(topic) === -1) {
+    return { ok: false, error: `topic must be one of ${getNoticeTopics().join(', ')}`, field: 'topic' };
+  }
+
+  // Without a start date a notice starts now, or keeps its start when edited
+  const hasStart = raw.startsAt !== undefined && raw.startsAt !== null && raw.startsAt !== '';
+  const startsAt = hasStart ? new Date(raw.startsAt as string).getTime() : now;
+  if (isNaN(startsAt)) {
+    return { ok: false, error: 'startsAt must be a date', field: 'startsAt' };
+  }
+
+  const expiresAt = new Date(raw.expiresAt as string).getTime();
+  if (typeof raw.expiresAt !== 'string' || isNaN(expiresAt)) {
+    return { ok: false, error: 'expiresAt is required and must be a date', field: 'expiresAt' };
+  }
+  if (expiresAt <= Math.max(now, startsAt)) {
+    return { ok: false, error: 'expiresAt must be in the future and after startsAt', field: 'expiresAt' };
+  }
+  if (expiresAt - now > MAX_NOTICE_DAYS * 24 * 60 * 60 * 1000) {
+    return { ok: false, error: `expiresAt must be within ${MAX_NOTICE_DAYS} days`, field: 'expiresAt' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      kind: raw.kind,
+      text,
+      topic,
+      startsAt: hasStart ? new Date(startsAt).toISOString() : undefined,
+      expiresAt: new Date(expiresAt).toISOString()
+    }
+  };
+}
+
+// Every notice, including scheduled and expired ones (kept for the admin list), newest first
+export function listNotices(): Notice[] {
+  return store.get().notices.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Notices in force now, optionally only those for one intent (plus "all")
+export function getActiveNotices(intentId?: string, now: number = Date.now()): Notice[] {
+  return listNotices().filter(notice => isActive(notice, now) &&
+    (!intentId || notice.topic === ALL_TOPICS || notice.topic === intentId));
+}
+
+export function createNotice(input: NoticeInput, now: number = Date.now()): Notice {
+  const timestamp = new Date(now).toISOString();
+  const notice: Notice = {
+    ...input,
+    id: randomUUID(),
+    startsAt: input.startsAt || timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+  store.get().notices.push(notice);
+  store.save();
+  return notice;
+}
+
+// Returns the notice before and after the change, so both topics' cached
+// answers can be dropped, or null when there is no such notice
+export function updateNotice(id: string, input: NoticeInput, now: number = Date.now()): { before: Notice; after: Notice } | null {
+  const notices = store.get().notices;
+  const index = notices.map(notice => notice.id).indexOf(id);
+  if (index === -1) {
+    return null;
+  }
+
+  const before = notices[index];
+  const after: Notice = {
+    ...before,
+    ...input,
+    startsAt: input.startsAt || before.startsAt,
+    updatedAt: new Date(now).toISOString()
+  };
+  notices[index] = after;
+  store.save();
+  return { before, after };
+}
+
+export function deleteNotice(id: string): Notice | null {
+  const data = store.get();
+  const notice = data.notices.filter(candidate => candidate.id === id)[0];
+  if (!notice) {
+    return null;
+  }
+  data.notices = data.notices.filter(candidate => candidate.id !== id);
+  store.save();
+  return notice;
+}
+
+export function formatNoticesForPrompt(notices: Notice[]): string {
+  return notices
+    .map(notice => `- ${notice.kind === 'fact' ? 'Fact' : 'Announcement'} (until ${notice.expiresAt.slice(0, 10)}): ${notice.text}`)
+    .join('\n');
+}
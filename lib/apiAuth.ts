@@ -0,0 +1,163 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { IncomingMessage } from 'http';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  ApiKey,
+  findApiKey,
+  getActiveApiKey,
+  getApiKeyFromRequest,
+  isOriginAllowed,
+  isOriginAllowedByAnyKey,
+  normalizeOrigin
+} from '@/lib/apiKeys';
+import { Locale } from '@/lib/i18n';
+import { sendChatError } from '@/lib/chatRequest';
+
+// Headers browsers may read from /api/v1 responses
+const EXPOSED_HEADERS = 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, X-Request-Id, X-Quota-Limit, X-Quota-Remaining';
+
+const WIDGET_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+let generatedSecret: Buffer | null = null;
+
+// Requests from pages on this site, such as the embed page, carry our own origin
+function isSameOrigin(req: NextApiRequest, origin: string): boolean {
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch (error) {
+    return false;
+  }
+}
+
+function setCorsHeaders(res: NextApiResponse, origin: string, methods: string): void {
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Api-Key, X-Request-Id');
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+  res.setHeader('Access-Control-Max-Age', 600);
+}
+
+// Answers CORS preflights and checks the request's secret API key and origin.
+// Returns the key, or null once an error or the preflight response is sent.
+// Requests without an Origin header come from servers, where the key alone
+// is enough. Widget keys are not accepted here.
+export function authenticateApiRequest(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  methods: string,
+  locale: Locale
+): ApiKey | null {
+  const origin = typeof req.headers.origin === 'string' ? req.headers.origin : '';
+  const crossOrigin = !!origin && !isSameOrigin(req, origin);
+  res.setHeader('Vary', 'Origin');
+
+  // Preflights carry no key, so any origin some key allows gets the headers,
+  // which also lets those sites read the errors below
+  if (crossOrigin && isOriginAllowedByAnyKey(origin)) {
+    setCorsHeaders(res, origin, methods);
+  }
+  if (req.method === 'OPTIONS') {
+    res.status(204).end();
+    return null;
+  }
+
+  const key = findApiKey(getApiKeyFromRequest(req));
+  if (!key) {
+    sendChatError(res, 401, 'INVALID_API_KEY', locale);
+    return null;
+  }
+  if (crossOrigin && !isOriginAllowed(key, origin)) {
+    sendChatError(res, 403, 'ORIGIN_NOT_ALLOWED', locale);
+    return null;
+  }
+  return key;
+}
+
+// WIDGET_TOKEN_SECRET signs widget sessions. Without it one is made at start-up,
+// so sessions end on a restart and only work on the instance that began them.
+function getWidgetTokenSecret(): string | Buffer {
+  if (process.env.WIDGET_TOKEN_SECRET) {
+    return process.env.WIDGET_TOKEN_SECRET;
+  }
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32);
+  }
+  return generatedSecret;
+}
+
+function signWidgetToken(payload: string): string {
+  return createHmac('sha256', getWidgetTokenSecret()).update(payload).digest('base64url');
+}
+
+// Issued by /embed once it has checked the site framing it, and sent back with
+// each question, so a widget key copied from a page works nowhere else.
+// "<key id>.<parent origin>.<expiry>.<signature>", the origin base64url-encoded.
+export function issueWidgetToken(record: ApiKey, parentOrigin: string, now: number = Date.now()): string {
+  const payload = `${record.id}.${Buffer.from(parentOrigin).toString('base64url')}.${now + WIDGET_TOKEN_TTL_MS}`;
+  return `${payload}.${signWidgetToken(payload)}`;
+}
+
+function readWidgetToken(token: string, now: number): { keyId: string; parentOrigin: string } | null {
+  const parts = token.split('.');
+  if (parts.length !== 4 || !(Number(parts[2]) > now)) {
+    return null;
+  }
+  const expected = Buffer.from(signWidgetToken(parts.slice(0, 3).join('.')));
+  const signature = Buffer.from(parts[3]);
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+  return { keyId: parts[0], parentOrigin: Buffer.from(parts[1], 'base64url').toString() };
+}
+
+// Checks a question from the widget: it must come from the embed page on this
+// site, with a current token for a key that still allows the framing site.
+// Returns the key and that site, or null once an error is sent.
+export function authenticateWidgetRequest(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  locale: Locale,
+  now: number = Date.now()
+): { key: ApiKey; parentOrigin: string } | null {
+  const origin = typeof req.headers.origin === 'string' ? req.headers.origin : '';
+  if (!origin || !isSameOrigin(req, origin)) {
+    sendChatError(res, 403, 'ORIGIN_NOT_ALLOWED', locale);
+    return null;
+  }
+
+  const header = req.headers['x-widget-token'];
+  const token = readWidgetToken(typeof header === 'string' ? header : '', now);
+  const key = token ? getActiveApiKey(token.keyId) : null;
+  if (!token || !key) {
+    sendChatError(res, 401, 'INVALID_API_KEY', locale);
+    return null;
+  }
+  if (!isOriginAllowed(key, token.parentOrigin)) {
+    sendChatError(res, 403, 'ORIGIN_NOT_ALLOWED', locale);
+    return null;
+  }
+  return { key, parentOrigin: token.parentOrigin };
+}
+
+// The embed page is only shown inside a frame on one of the key's sites. The
+// widget script passes the site's origin; browsers also say whether the page is
+// being framed (Sec-Fetch-Dest) and from where (Referer), and when they do it
+// must agree. The page's frame-ancestors policy then holds the browser to it.
+export function checkEmbedParent(req: IncomingMessage, record: ApiKey, parentOrigin: string): boolean {
+  if (!isOriginAllowed(record, parentOrigin)) {
+    return false;
+  }
+  const dest = req.headers['sec-fetch-dest'];
+  if (dest && dest !== 'iframe' && dest !== 'frame') {
+    return false;
+  }
+  const referer = typeof req.headers.referer === 'string' ? req.headers.referer : '';
+  if (!referer) {
+    return true;
+  }
+  try {
+    return new URL(referer).origin === normalizeOrigin(parentOrigin);
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,42 @@
+import type { ServerResponse } from 'http';
+import { getMessages } from '@/lib/i18n';
+
+// Error codes of the resident-facing APIs besides /api/chat: bins, feedback
+// and reminders. Browsers show `messages.apiErrors[code]` in the resident's
+// language; `error` is the English text for other clients.
+export type ApiErrorCode =
+  | 'METHOD_NOT_ALLOWED'
+  | 'INVALID_REQUEST'
+  | 'RATE_LIMITED'
+  | 'ADDRESS_REQUIRED'
+  | 'ADDRESS_NOT_FOUND'
+  | 'ANSWER_EXPIRED'
+  | 'SUBSCRIPTION_NOT_FOUND'
+  | 'TOPICS_REQUIRED'
+  | 'INVALID_EMAIL'
+  | 'STREET_REQUIRED'
+  | 'UNKNOWN_STREET'
+  | 'CHANNEL_UNAVAILABLE'
+  | 'TOO_MANY_BROWSERS'
+  | 'EMAIL_FAILED';
+
+// As with ChatErrorBody, INVALID_REQUEST describes the broken field for client
+// developers rather than using the catalogue text
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  field?: string;
+  rateLimited?: boolean;
+}
+
+export function sendApiError(
+  res: ServerResponse,
+  status: number,
+  code: ApiErrorCode,
+  extra: Partial<ApiErrorBody> = {}
+): void {
+  const body: ApiErrorBody = { ...extra, error: extra.error || getMessages('en').apiErrors[code], code };
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
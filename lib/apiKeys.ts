@@ -0,0 +1,291 @@
+import path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { createJsonFileStore } from '@/lib/jsonFileStore';
+import { cleanText } from '@/lib/chatRequest';
+import { ukToday } from '@/lib/bins';
+
+// Keys for community sites using /api/v1 and the embeddable widget. Each has
+// a per-minute limit on questions that reach the model (like the chat's IP
+// limit), a daily quota on all questions, and the origins allowed to use it
+// from a browser. Only a hash of the secret key is stored; it is shown once.
+// The widget gets its own publishable key instead, which is only accepted by
+// /embed when the page framing it is one of the allowed origins.
+export interface ApiKey {
+  id: string;
+  name: string; // who it was issued to, e.g. "Northstowe PTA"
+  prefix: string; // the first characters, to tell keys apart
+  keyHash: string;
+  widgetKey?: string; // publishable; missing on keys issued before widget keys
+  allowedOrigins: string[]; // e.g. "https://northstowepta.org"
+  rateLimit: number; // questions per minute that reach the model
+  dailyQuota: number; // questions per day, answered or not
+  createdAt: string;
+  updatedAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+  usage: Record<string, Record<string, number>>; // UK date -> outcome -> requests
+}
+
+export type ApiKeyInput = Pick<ApiKey, 'name' | 'allowedOrigins' | 'rateLimit' | 'dailyQuota'>;
+
+export type ApiKeyValidation =
+  | { ok: true; value: ApiKeyInput }
+  | { ok: false; error: string; field: string };
+
+interface ApiKeysFile {
+  keys: ApiKey[];
+}
+
+const KEY_PREFIX = 'ama_';
+const WIDGET_KEY_PREFIX = 'amw_';
+const MAX_NAME_LENGTH = 80;
+const MAX_ORIGINS = 20;
+const DEFAULT_RATE_LIMIT = 10;
+const MAX_RATE_LIMIT = 600;
+const DEFAULT_DAILY_QUOTA = 500;
+const MAX_DAILY_QUOTA = 100000;
+const USAGE_DAYS = 90;
+
+// API_KEYS_FILE sets the path; the default sits beside the other stores
+const store = createJsonFileStore<ApiKeysFile>(
+  'api-keys',
+  () => process.env.API_KEYS_FILE || path.join(process.cwd(), '.data', 'api-keys.json'),
+  () => ({ keys: [] })
+);
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateKey(prefix: string): string {
+  return `${prefix}${randomBytes(24).toString('base64').replace(/\+/g, '-').replace(/\//g, '_')}`;
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(`${iso}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// "https://example.org/" and "https://Example.org" both become "https://example.org"
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if ((url.protocol !== 'https:' && url.protocol !== 'http:') || url.pathname.replace(/\/$/, '') || url.search || url.hash) {
+      return null;
+    }
+    return url.origin;
+  } catch (error) {
+    return null;
+  }
+}
+
+function validateCount(value: unknown, fallback: number, max: number): number | null {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  const count = Number(value);
+  return Math.floor(count) === count && count >= 1 && count <= max ? count : null;
+}
+
+export function validateApiKey(body: unknown): ApiKeyValidation {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const name = typeof raw.name === 'string' ? cleanText(raw.name).replace(/\s+/g, ' ').trim() : '';
+  if (!name) {
+    return { ok: false, error: 'name is required', field: 'name' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `name must be at most ${MAX_NAME_LENGTH} characters`, field: 'name' };
+  }
+
+  const origins = Array.isArray(raw.allowedOrigins) ? raw.allowedOrigins : [];
+  if (raw.allowedOrigins !== undefined && !Array.isArray(raw.allowedOrigins)) {
+    return { ok: false, error: 'allowedOrigins must be a list of origins', field: 'allowedOrigins' };
+  }
+  if (origins.length > MAX_ORIGINS) {
+    return { ok: false, error: `allowedOrigins can have at most ${MAX_ORIGINS} origins`, field: 'allowedOrigins' };
+  }
+  const allowedOrigins: string[] = [];
+  for (let i = 0; i < origins.length; i++) {
+    const origin = typeof origins[i] === 'string' ? normalizeOrigin(origins[i]) : null;
+    if (!origin) {
+      return { ok: false, error: `${origins[i]} is not an origin like https://example.org`, field: 'allowedOrigins' };
+    }
+    if (allowedOrigins.indexOf(origin) === -1) {
+      allowedOrigins.push(origin);
+    }
+  }
+
+  const rateLimit = validateCount(raw.rateLimit, DEFAULT_RATE_LIMIT, MAX_RATE_LIMIT);
+  if (rateLimit === null) {
+    return { ok: false, error: `rateLimit must be a whole number from 1 to ${MAX_RATE_LIMIT}`, field: 'rateLimit' };
+  }
+  const dailyQuota = validateCount(raw.dailyQuota, DEFAULT_DAILY_QUOTA, MAX_DAILY_QUOTA);
+  if (dailyQuota === null) {
+    return { ok: false, error: `dailyQuota must be a whole number from 1 to ${MAX_DAILY_QUOTA}`, field: 'dailyQuota' };
+  }
+
+  return { ok: true, value: { name, allowedOrigins, rateLimit, dailyQuota } };
+}
+
+// Every key, including revoked ones (kept for their usage), newest first.
+// Keys issued before widget keys get one here, for the admin page's snippet.
+export function listApiKeys(): ApiKey[] {
+  const keys = store.get().keys;
+  const missing = keys.filter(record => !record.widgetKey);
+  if (missing.length > 0) {
+    missing.forEach(record => {
+      record.widgetKey = generateKey(WIDGET_KEY_PREFIX);
+    });
+    store.save();
+  }
+  return keys.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Returns the key itself only here; afterwards only its hash is known
+export function createApiKey(input: ApiKeyInput, now: number = Date.now()): { key: string; record: ApiKey } {
+  const timestamp = new Date(now).toISOString();
+  const key = generateKey(KEY_PREFIX);
+  const record: ApiKey = {
+    ...input,
+    id: randomUUID(),
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    keyHash: hashKey(key),
+    widgetKey: generateKey(WIDGET_KEY_PREFIX),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    usage: {}
+  };
+  store.get().keys.push(record);
+  store.save();
+  return { key, record };
+}
+
+export function updateApiKey(id: string, input: ApiKeyInput, now: number = Date.now()): ApiKey | null {
+  const record = store.get().keys.filter(candidate => candidate.id === id)[0];
+  if (!record) {
+    return null;
+  }
+  record.name = input.name;
+  record.allowedOrigins = input.allowedOrigins;
+  record.rateLimit = input.rateLimit;
+  record.dailyQuota = input.dailyQuota;
+  record.updatedAt = new Date(now).toISOString();
+  store.save();
+  return record;
+}
+
+export function revokeApiKey(id: string, now: number = Date.now()): ApiKey | null {
+  const record = store.get().keys.filter(candidate => candidate.id === id)[0];
+  if (!record) {
+    return null;
+  }
+  if (!record.revokedAt) {
+    record.revokedAt = new Date(now).toISOString();
+    record.updatedAt = record.revokedAt;
+    store.save();
+  }
+  return record;
+}
+
+// "Authorization: Bearer <key>" or "X-Api-Key: <key>". Never a query
+// parameter, so the secret stays out of URLs, access logs and pages.
+export function getApiKeyFromRequest(req: IncomingMessage): string {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  const header = req.headers['x-api-key'];
+  return (match ? match[1] : typeof header === 'string' ? header : '').trim();
+}
+
+// The active key matching the given secret, or null
+export function findApiKey(key: string): ApiKey | null {
+  if (!key || key.indexOf(KEY_PREFIX) !== 0) {
+    return null;
+  }
+  const keyHash = hashKey(key);
+  return store.get().keys.filter(record => record.keyHash === keyHash && !record.revokedAt)[0] || null;
+}
+
+// The active key with the given widget key, or null. Secret keys never match.
+export function findApiKeyByWidgetKey(widgetKey: string): ApiKey | null {
+  if (!widgetKey || widgetKey.indexOf(WIDGET_KEY_PREFIX) !== 0) {
+    return null;
+  }
+  return store.get().keys.filter(record => record.widgetKey === widgetKey && !record.revokedAt)[0] || null;
+}
+
+export function getActiveApiKey(id: string): ApiKey | null {
+  return store.get().keys.filter(record => record.id === id && !record.revokedAt)[0] || null;
+}
+
+export function isOriginAllowed(record: ApiKey, origin: string): boolean {
+  return record.allowedOrigins.indexOf(normalizeOrigin(origin) || '') !== -1;
+}
+
+// For CORS preflights, which carry no key
+export function isOriginAllowedByAnyKey(origin: string): boolean {
+  return store.get().keys.some(record => !record.revokedAt && isOriginAllowed(record, origin));
+}
+
+export function getRequestsToday(record: ApiKey, now: number = Date.now()): number {
+  const today = record.usage[ukToday(new Date(now))] || {};
+  return Object.keys(today).reduce((total, outcome) => total + today[outcome], 0);
+}
+
+// Counts a request against the key by how it ended, forgetting days older
+// than USAGE_DAYS so the file doesn't grow forever
+export function recordApiUsage(id: string, outcome: string, now: number = Date.now()): void {
+  const record = store.get().keys.filter(candidate => candidate.id === id)[0];
+  if (!record) {
+    return;
+  }
+
+  const today = ukToday(new Date(now));
+  const cutoff = addDays(today, -USAGE_DAYS);
+  Object.keys(record.usage).forEach(day => {
+    if (day < cutoff) {
+      delete record.usage[day];
+    }
+  });
+
+  const counts = record.usage[today] || (record.usage[today] = {});
+  counts[outcome] = (counts[outcome] || 0) + 1;
+  record.lastUsedAt = new Date(now).toISOString();
+  store.save();
+}
+
+// Requests by outcome over the last `days` days, today included
+export function summarizeUsage(record: ApiKey, days: number, now: number = Date.now()): Record<string, number> {
+  const from = addDays(ukToday(new Date(now)), 1 - days);
+  const totals: Record<string, number> = {};
+  Object.keys(record.usage).forEach(day => {
+    if (day < from) {
+      return;
+    }
+    Object.keys(record.usage[day]).forEach(outcome => {
+      totals[outcome] = (totals[outcome] || 0) + record.usage[day][outcome];
+    });
+  });
+  return totals;
+}
+
+// What the admin API and /api/v1/usage return: never the hash
+export function describeApiKey(record: ApiKey, now: number = Date.now()) {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    widgetKey: record.widgetKey,
+    allowedOrigins: record.allowedOrigins,
+    rateLimit: record.rateLimit,
+    dailyQuota: record.dailyQuota,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    revokedAt: record.revokedAt,
+    lastUsedAt: record.lastUsedAt,
+    usage: {
+      today: getRequestsToday(record, now),
+      last7Days: summarizeUsage(record, 7, now),
+      last30Days: summarizeUsage(record, 30, now)
+    }
+  };
+}
@@ -0,0 +1,298 @@
+import fs from 'fs';
+import path from 'path';
+import { IcsEvent, icsDateToIso } from '@/lib/ical';
+import { logger } from '@/lib/logger';
+import { Locale, getMessages } from '@/lib/i18n';
+
+export type BinColour = 'black' | 'blue' | 'green';
+
+export interface BinRound {
+  id: string;
+  collectionDay: string; // "Monday" to "Friday"
+  blackBinWeek: string; // YYYY-MM-DD of any day in a week when the black bin goes out
+}
+
+export interface BinStreet {
+  street: string;
+  postcode: string;
+  roundId: string;
+}
+
+export interface BinCollection {
+  date: string; // YYYY-MM-DD
+  bins: BinColour[];
+  originalDate?: string; // set when a bank holiday moved the collection
+}
+
+export interface BinData {
+  rounds: BinRound[];
+  streets: BinStreet[];
+  calendar: Record<string, BinCollection[]>; // explicit dates per round, e.g. imported from ICS
+  bankHolidays: string[];
+}
+
+export interface BinLookup {
+  street: BinStreet;
+  round: BinRound;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Dates are handled as UTC midnights of YYYY-MM-DD strings so the server's
+// timezone never shifts a collection day
+function parseIsoDate(iso: string): number {
+  const [year, month, day] = iso.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function toIsoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function mondayOf(time: number): number {
+  return time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+// Today's date in Northstowe, whatever timezone the server runs in
+export function ukToday(now: Date = new Date()): string {
+  return now.toLocaleDateString('en-CA', { timeZone: 'Europe/London' });
+}
+
+export function formatCollectionDate(iso: string, locale: Locale = 'en'): string {
+  return new Date(parseIsoDate(iso)).toLocaleDateString(locale === 'en' ? 'en-GB' : locale, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: 'UTC'
+  });
+}
+
+function parseCsv(source: string): Record<string, string>[] {
+  const rows = source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => {
+      // Handles quoted fields containing commas ("Road, North")
+      const cells: string[] = [];
+      let cell = '';
+      let quoted = false;
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && line[i + 1] === '"' && quoted) {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = !quoted;
+        } else if (char === ',' && !quoted) {
+          cells.push(cell.trim());
+          cell = '';
+        } else {
+          cell += char;
+        }
+      }
+      cells.push(cell.trim());
+      return cells;
+    });
+
+  const header = (rows.shift() || []).map(name => name.toLowerCase());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = cells[i] || '';
+    });
+    return record;
+  });
+}
+
+function readJson<T>(file: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('bin_data_load_failed', { file, error });
+    }
+    return fallback;
+  }
+}
+
+export function normalizePostcode(postcode: string): string {
+  const compact = postcode.toUpperCase().replace(/\s+/g, '');
+  return compact.length > 3 ? `${compact.slice(0, -3)} ${compact.slice(-3)}` : compact;
+}
+
+let binData: BinData | null = null;
+
+export function getBinDataDir(): string {
+  return process.env.BIN_DATA_DIR || path.join(process.cwd(), 'data', 'bins');
+}
+
+export function loadBinData(dir: string = getBinDataDir()): BinData {
+  let streets: BinStreet[] = [];
+  try {
+    streets = parseCsv(fs.readFileSync(path.join(dir, 'streets.csv'), 'utf8'))
+      .filter(row => row.street && row.round)
+      .map(row => ({ street: row.street, postcode: normalizePostcode(row.postcode || ''), roundId: row.round }));
+  } catch (error) {
+    logger.error('bin_data_load_failed', { file: path.join(dir, 'streets.csv'), error });
+  }
+
+  return {
+    rounds: readJson<BinRound[]>(path.join(dir, 'rounds.json'), []),
+    streets,
+    calendar: readJson<Record<string, BinCollection[]>>(path.join(dir, 'calendar.json'), {}),
+    bankHolidays: readJson<string[]>(path.join(dir, 'bank-holidays.json'), [])
+  };
+}
+
+export function getBinData(): BinData {
+  if (!binData) {
+    binData = loadBinData();
+    if (binData.streets.length === 0) {
+      logger.warn('bin_data_empty', { dir: getBinDataDir() });
+    }
+  }
+  return binData;
+}
+
+// Finds a street by full postcode first, then by the longest street name
+// mentioned in the text
+export function lookupAddress(text: string, data: BinData = getBinData()): BinLookup | null {
+  const findRound = (street: BinStreet): BinLookup | null => {
+    const round = data.rounds.find(candidate => candidate.id === street.roundId);
+    return round ? { street, round } : null;
+  };
+
+  const postcodeMatch = text.match(/\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/i);
+  if (postcodeMatch) {
+    const postcode = normalizePostcode(`${postcodeMatch[1]}${postcodeMatch[2]}`);
+    const street = data.streets.find(candidate => candidate.postcode === postcode);
+    if (street) {
+      return findRound(street);
+    }
+  }
+
+  const lowerText = text.toLowerCase();
+  const street = data.streets
+    .filter(candidate => lowerText.includes(candidate.street.toLowerCase()))
+    .sort((a, b) => b.street.length - a.street.length)[0];
+
+  return street ? findRound(street) : null;
+}
+
+// Regular fortnightly pattern: black one week, blue and green the next. A bank
+// holiday earlier in the same week (or on the day) pushes the collection back a day.
+function computeCollections(round: BinRound, fromTime: number, weeks: number, bankHolidays: string[]): BinCollection[] {
+  const weekdayOffset = DAY_NAMES.indexOf(round.collectionDay) - 1;
+  const anchorMonday = mondayOf(parseIsoDate(round.blackBinWeek));
+  const collections: BinCollection[] = [];
+
+  for (let week = -1; week <= weeks; week++) {
+    const monday = mondayOf(fromTime) + week * 7 * DAY_MS;
+    const scheduled = monday + weekdayOffset * DAY_MS;
+    const weeksFromAnchor = Math.round((monday - anchorMonday) / (7 * DAY_MS));
+    const bins: BinColour[] = weeksFromAnchor % 2 === 0 ? ['black'] : ['blue', 'green'];
+
+    const shifted = bankHolidays.some(holiday => {
+      const holidayTime = parseIsoDate(holiday);
+      return holidayTime >= monday && holidayTime <= scheduled;
+    });
+
+    collections.push(shifted
+      ? { date: toIsoDate(scheduled + DAY_MS), bins, originalDate: toIsoDate(scheduled) }
+      : { date: toIsoDate(scheduled), bins });
+  }
+
+  return collections;
+}
+
+// Upcoming collections on or after `from`. Explicit calendar dates replace the
+// computed pattern for any week they fall in (Christmas, one-off changes).
+export function getUpcomingCollections(
+  round: BinRound,
+  from: string,
+  weeks: number = 4,
+  data: BinData = getBinData()
+): BinCollection[] {
+  const fromTime = parseIsoDate(from);
+  const explicit = data.calendar[round.id] || [];
+  const explicitWeeks = explicit.map(collection => mondayOf(parseIsoDate(collection.date)));
+
+  return computeCollections(round, fromTime, weeks, data.bankHolidays)
+    .filter(collection => explicitWeeks.indexOf(mondayOf(parseIsoDate(collection.date))) === -1)
+    .concat(explicit)
+    .filter(collection => collection.date >= from)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .filter(collection => parseIsoDate(collection.date) < fromTime + (weeks * 7 + 7) * DAY_MS);
+}
+
+export function getNextByColour(collections: BinCollection[]): Partial<Record<BinColour, BinCollection>> {
+  const next: Partial<Record<BinColour, BinCollection>> = {};
+  collections.forEach(collection => {
+    collection.bins.forEach(colour => {
+      if (!next[colour]) {
+        next[colour] = collection;
+      }
+    });
+  });
+  return next;
+}
+
+// "Friday" in the resident's language
+function formatWeekday(dayName: string, locale: Locale): string {
+  // 7 January 2024 was a Sunday
+  return new Date(Date.UTC(2024, 0, 7 + DAY_NAMES.indexOf(dayName))).toLocaleDateString(locale === 'en' ? 'en-GB' : locale, {
+    weekday: 'long',
+    timeZone: 'UTC'
+  });
+}
+
+// Markdown answer used by /api/chat for bin questions, in the resident's
+// language. Moderators' notices (a collection delayed by snow) go first, since
+// they override the calendar.
+export function formatBinAnswer(lookup: BinLookup, collections: BinCollection[], locale: Locale, notices: string[] = []): string {
+  const messages = getMessages(locale);
+  const t = messages.binAnswer;
+  const next = getNextByColour(collections);
+  const rows = (['black', 'blue', 'green'] as BinColour[])
+    .filter(colour => next[colour])
+    .map(colour => {
+      const collection = next[colour]!;
+      const name = messages.notifications.binNames[colour];
+      const moved = collection.originalDate ? ` (${t.moved(formatCollectionDate(collection.originalDate, locale))})` : '';
+      return `| ${name.charAt(0).toUpperCase()}${name.slice(1)} | ${formatCollectionDate(collection.date, locale)}${moved} |`;
+    });
+
+  const postcode = lookup.street.postcode ? ` (${lookup.street.postcode})` : '';
+
+  return [
+    ...notices.map(notice => `> **${t.notice}:** ${notice}\n`),
+    t.round(`${lookup.street.street}${postcode}`, formatWeekday(lookup.round.collectionDay, locale)),
+    '',
+    `| ${t.bin} | ${t.nextCollection} |`,
+    '|---|---|',
+    ...rows,
+    '',
+    t.putOut
+  ].join('\n');
+}
+
+// Converts the events of a council ICS feed into collection dates. Event
+// summaries are expected to name the bin colours, e.g. "Blue and green bin".
+export function binCollectionsFromIcs(events: IcsEvent[]): BinCollection[] {
+  const byDate: Record<string, BinColour[]> = {};
+
+  events.forEach(event => {
+    const date = icsDateToIso(event.start);
+    const colours = (event.summary.toLowerCase().match(/\b(black|blue|green)\b/g) || []) as BinColour[];
+    if (!date || colours.length === 0) {
+      return;
+    }
+    byDate[date] = (byDate[date] || []).concat(colours.filter(colour => (byDate[date] || []).indexOf(colour) === -1));
+  });
+
+  return Object.keys(byDate)
+    .sort()
+    .map(date => ({ date, bins: byDate[date] }));
+}
@@ -0,0 +1,290 @@
+import { createSseParser } from '@/lib/sse';
+import {
+  ChatErrorBody,
+  ChatRequestBody,
+  MAX_HISTORY_MESSAGES,
+  MAX_HISTORY_MESSAGE_LENGTH,
+  MAX_HISTORY_TOTAL_LENGTH
+} from '@/lib/chatRequest';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+import type { HistoryMessage } from '@/lib/conversation';
+import type { Citation } from '@/lib/citations';
+import type { Locale, Messages } from '@/lib/i18n';
+import type { NotificationTopic } from '@/lib/subscriptions';
+
+export type ChatRequest = Omit<ChatRequestBody, 'stream'>;
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetTime: number; // epoch ms, computed from the server's RateLimit-Reset
+}
+
+// An answer from /api/chat (streamed or not), /api/v1/ask or the widget
+export interface ChatAnswer {
+  response: string;
+  reasoning?: string;
+  citations?: Citation[];
+  source?: string;
+  cachedAt?: string;
+  answerId?: string;
+  conversationId?: string;
+}
+
+export interface ChatResult {
+  status: number;
+  data: ChatAnswer | Partial<ChatErrorBody>; // an empty error when the body wasn't JSON
+  rateLimit?: RateLimitState;
+}
+
+export function isChatAnswer(data: ChatResult['data']): data is ChatAnswer {
+  return typeof (data as ChatAnswer).response === 'string';
+}
+
+function readRateLimitHeaders(headers: Headers): RateLimitState | undefined {
+  const limit = headers.get('RateLimit-Limit');
+  const remaining = headers.get('RateLimit-Remaining');
+  const reset = headers.get('Retry-After') || headers.get('RateLimit-Reset');
+  if (limit === null || remaining === null || reset === null) {
+    return undefined;
+  }
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetTime: Date.now() + Number(reset) * 1000,
+  };
+}
+
+// What residents see for each error code, in their language. The server's
+// `error` text is only used for codes the catalogue doesn't know yet.
+export function chatErrorMessage(
+  status: number,
+  data: ChatResult['data'],
+  messages: Messages
+): string {
+  const body: Partial<ChatErrorBody> = isChatAnswer(data) ? {} : data;
+  if (body.code && messages.errors[body.code]) {
+    return messages.errors[body.code];
+  }
+  if (status === 413) {
+    return messages.errors.PAYLOAD_TOO_LARGE;
+  }
+  return body.error || messages.errors.UPSTREAM_ERROR;
+}
+
+// The most recent turns that fit the limits the server accepts. Long answers
+// are cut short; older turns beyond the total are left out, as the server
+// would leave them out of what it gives the model anyway.
+export function buildRequestHistory(turns: HistoryMessage[]): HistoryMessage[] {
+  const history: HistoryMessage[] = [];
+  let totalLength = 0;
+  for (let i = turns.length - 1; i >= 0 && history.length < MAX_HISTORY_MESSAGES; i--) {
+    const content = turns[i].content.slice(0, MAX_HISTORY_MESSAGE_LENGTH);
+    if (totalLength + content.length > MAX_HISTORY_TOTAL_LENGTH) {
+      break;
+    }
+    totalLength += content.length;
+    history.unshift({ role: turns[i].role, content });
+  }
+  return history;
+}
+
+export interface ChatStreamHandlers {
+  onToken: (content: string) => void;
+  onReasoning: (content: string) => void;
+}
+
+// Posts to /api/chat in streaming mode. Answers arrive as SSE `reasoning` and
+// `token` events followed by `done`; refusals and rate limits still come back
+// as plain JSON.
+export async function postChatStream(
+  request: ChatRequest,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<ChatResult> {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  const rateLimit = readRateLimitHeaders(response.headers);
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    return { status: response.status, data, rateLimit };
+  }
+
+  let result: ChatResult = { status: 500, data: { error: 'The answer stream ended unexpectedly.' }, rateLimit };
+  const parse = createSseParser(({ event, data }) => {
+    const payload = JSON.parse(data);
+    if (event === 'token') {
+      handlers.onToken(payload.content);
+    } else if (event === 'reasoning') {
+      handlers.onReasoning(payload.content);
+    } else if (event === 'done') {
+      result = { status: 200, data: payload, rateLimit };
+    } else if (event === 'error') {
+      result = { status: payload.status || 500, data: payload, rateLimit };
+    }
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parse(decoder.decode(value, { stream: true }));
+  }
+  parse(decoder.decode());
+
+  return result;
+}
+
+// Asks from the embedded widget with the token its page was given. Answers
+// come back as plain JSON, as from /api/v1/ask.
+export async function postWidgetAsk(widgetToken: string, request: ChatRequest): Promise<ChatResult> {
+  const response = await fetch('/api/embed', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Widget-Token': widgetToken,
+    },
+    body: JSON.stringify(request),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { status: response.status, data, rateLimit: readRateLimitHeaders(response.headers) };
+}
+
+// What residents see for an error from /api/bins, /api/feedback or
+// /api/subscriptions; `fallback` covers network failures and unknown codes
+export function apiErrorMessage(data: Partial<ApiErrorBody>, messages: Messages, fallback: string): string {
+  return data.code && messages.apiErrors[data.code] ? messages.apiErrors[data.code] : fallback;
+}
+
+export interface FeedbackResult {
+  status: number;
+  data: { rating?: 'up' | 'down' } & Partial<ApiErrorBody>;
+}
+
+// Network failures come back as status 0
+export async function postFeedback(answerId: string, rating: 'up' | 'down', note?: string): Promise<FeedbackResult> {
+  try {
+    const response = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ answerId, rating, note }),
+    });
+    const data = await response.json().catch(() => ({}));
+    return { status: response.status, data };
+  } catch (error) {
+    console.error('Failed to send feedback:', error);
+    return { status: 0, data: {} };
+  }
+}
+
+export interface Announcement {
+  id: string;
+  kind: 'announcement' | 'fact';
+  text: string;
+  topic: string;
+  expiresAt: string;
+}
+
+// The banner is optional, so failures just leave it empty
+export async function fetchAnnouncements(): Promise<Announcement[]> {
+  try {
+    const response = await fetch('/api/announcements');
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.announcements || [];
+  } catch (error) {
+    console.error('Failed to load announcements:', error);
+    return [];
+  }
+}
+
+// Street names for the location setting
+export async function fetchStreets(): Promise<string[]> {
+  try {
+    const response = await fetch('/api/places?category=street');
+    if (!response.ok) return [];
+    const data = await response.json();
+    return (data.places || []).map((place: { name: string }) => place.name);
+  } catch (error) {
+    console.error('Failed to load streets:', error);
+    return [];
+  }
+}
+
+export interface ReminderOptions {
+  topics: NotificationTopic[];
+  channels: {
+    push: { publicKey: string } | null; // null when the server has no VAPID keys
+    email: boolean;
+  };
+}
+
+export interface ReminderPreferences {
+  topics: NotificationTopic[];
+  street?: string;
+  locale: Locale;
+}
+
+export type ReminderSubscription = ReminderPreferences & {
+  id: string;
+  channel: 'push' | 'email';
+  email?: string;
+  confirmed: boolean;
+};
+
+// What /api/subscriptions answers: the subscription, its token for a new
+// browser, a deletion or an error, depending on the call
+export interface SubscriptionResponse extends Partial<ApiErrorBody> {
+  subscription?: ReminderSubscription | null;
+  token?: string;
+  deleted?: boolean;
+  status?: 'confirmation_sent';
+}
+
+export interface SubscriptionResult {
+  status: number;
+  data: SubscriptionResponse;
+}
+
+// Which reminder channels the server offers; null when it can't be reached
+export async function fetchReminderOptions(): Promise<ReminderOptions | null> {
+  try {
+    const response = await fetch('/api/subscriptions');
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.error('Failed to load reminder options:', error);
+    return null;
+  }
+}
+
+// Every /api/subscriptions call; network failures come back as status 0
+export async function sendSubscriptionRequest(
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  token?: string,
+  body?: object
+): Promise<SubscriptionResult> {
+  try {
+    const response = await fetch(`/api/subscriptions${path}${token ? `?token=${encodeURIComponent(token)}` : ''}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    return { status: response.status, data };
+  } catch (error) {
+    console.error('Failed to update reminders:', error);
+    return { status: 0, data: {} };
+  }
+}
@@ -0,0 +1,186 @@
+import type { ServerResponse } from 'http';
+import type { HistoryMessage } from '@/lib/conversation';
+import type { UserLocation } from '@/lib/places';
+import { LOCALES, Locale, getMessages, isLocale } from '@/lib/i18n';
+
+// The /api/chat request contract, shared by the handler and the browser client
+
+export interface ChatRequestBody {
+  message: string;
+  history?: HistoryMessage[];
+  conversationId?: string;
+  stream?: boolean;
+  location?: UserLocation;
+  locale?: Locale;
+}
+
+export type ChatErrorCode =
+  | 'METHOD_NOT_ALLOWED'
+  | 'INVALID_REQUEST'
+  | 'MESSAGE_REQUIRED'
+  | 'MESSAGE_TOO_LONG'
+  | 'HISTORY_TOO_LONG'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'PROMPT_INJECTION'
+  | 'OFF_TOPIC'
+  | 'RATE_LIMITED'
+  | 'NOT_CONFIGURED'
+  | 'UPSTREAM_AUTH'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_ERROR'
+  | 'NO_ANSWER'
+  | 'INVALID_API_KEY'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'QUOTA_EXCEEDED';
+
+// Every error and refusal has this shape. `error` is the resident-facing text
+// for the code in the request's language, except INVALID_REQUEST, which
+// describes the broken field in English for client developers.
+export interface ChatErrorBody {
+  error: string;
+  code: ChatErrorCode;
+  field?: string;
+  rateLimited?: boolean;
+}
+
+export const MAX_MESSAGE_LENGTH = 1000;
+export const MAX_HISTORY_MESSAGES = 30;
+export const MAX_HISTORY_MESSAGE_LENGTH = 8000;
+// A little over the ~3000 tokens of history the model is given (HISTORY_TOKEN_BUDGET)
+export const MAX_HISTORY_TOTAL_LENGTH = 16000;
+// Next.js answers a bare 413 above this, so it leaves room for any body within
+// the limits above, even escaped; those get a coded error instead
+export const MAX_BODY_SIZE = '128kb';
+const MAX_CONVERSATION_ID_LENGTH = 100;
+const MAX_STREET_LENGTH = 100;
+
+export type ValidationResult =
+  | { ok: true; value: ChatRequestBody }
+  | { ok: false; error: ChatErrorBody };
+
+// Drops control characters (other than newline and tab), zero-width and
+// bidirectional formatting characters, and folds look-alike forms (NFKC) so
+// hidden text can't slip past the checks or into the prompt
+export function cleanText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, '')
+    .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2069\uFEFF]/g, '');
+}
+
+function invalid(code: ChatErrorCode, error: string, field?: string): ValidationResult {
+  return { ok: false, error: { error, code, field } };
+}
+
+export function validateChatRequest(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return invalid('INVALID_REQUEST', 'Request body must be a JSON object');
+  }
+  const raw = body as Record<string, unknown>;
+
+  if (raw.message !== undefined && typeof raw.message !== 'string') {
+    return invalid('INVALID_REQUEST', 'message must be a string', 'message');
+  }
+  // Questions are single lines; collapsing newlines stops fake "System:" blocks
+  const message = cleanText((raw.message as string) || '').replace(/\s+/g, ' ').trim();
+  if (!message) {
+    return invalid('MESSAGE_REQUIRED', 'Message is required', 'message');
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return invalid('MESSAGE_TOO_LONG', `Message must be at most ${MAX_MESSAGE_LENGTH} characters`, 'message');
+  }
+
+  let history: HistoryMessage[] | undefined;
+  if (raw.history !== undefined) {
+    if (!Array.isArray(raw.history)) {
+      return invalid('INVALID_REQUEST', 'history must be an array', 'history');
+    }
+    if (raw.history.length > MAX_HISTORY_MESSAGES) {
+      return invalid('HISTORY_TOO_LONG', `history may contain at most ${MAX_HISTORY_MESSAGES} messages`, 'history');
+    }
+
+    history = [];
+    let totalLength = 0;
+    for (let i = 0; i < raw.history.length; i++) {
+      const item = raw.history[i];
+      if (!item || (item.role !== 'user' && item.role !== 'assistant') || typeof item.content !== 'string') {
+        return invalid('INVALID_REQUEST', `history[${i}] must have a user or assistant role and string content`, 'history');
+      }
+      if (item.content.length > MAX_HISTORY_MESSAGE_LENGTH) {
+        return invalid('HISTORY_TOO_LONG', `history[${i}] is longer than ${MAX_HISTORY_MESSAGE_LENGTH} characters`, 'history');
+      }
+      totalLength += item.content.length;
+      if (totalLength > MAX_HISTORY_TOTAL_LENGTH) {
+        return invalid('HISTORY_TOO_LONG', `history may contain at most ${MAX_HISTORY_TOTAL_LENGTH} characters in all`, 'history');
+      }
+      const content = cleanText(item.content).trim();
+      if (content) {
+        history.push({ role: item.role, content });
+      }
+    }
+  }
+
+  if (raw.conversationId !== undefined && raw.conversationId !== null && (
+    typeof raw.conversationId !== 'string' ||
+    raw.conversationId.length > MAX_CONVERSATION_ID_LENGTH ||
+    !/^[\w-]*$/.test(raw.conversationId)
+  )) {
+    return invalid('INVALID_REQUEST', 'conversationId must be a short id string', 'conversationId');
+  }
+
+  if (raw.stream !== undefined && typeof raw.stream !== 'boolean') {
+    return invalid('INVALID_REQUEST', 'stream must be a boolean', 'stream');
+  }
+
+  // Either { street } or { lat, lon }; the browser rounds coordinates first
+  let location: UserLocation | undefined;
+  if (raw.location !== undefined && raw.location !== null) {
+    const value = raw.location as Record<string, unknown>;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return invalid('INVALID_REQUEST', 'location must be an object', 'location');
+    }
+    if (value.street !== undefined) {
+      const street = typeof value.street === 'string' ? cleanText(value.street).replace(/\s+/g, ' ').trim() : '';
+      if (!street || street.length > MAX_STREET_LENGTH) {
+        return invalid('INVALID_REQUEST', `location.street must be a street name of at most ${MAX_STREET_LENGTH} characters`, 'location');
+      }
+      location = { street };
+    } else {
+      const { lat, lon } = value;
+      if (typeof lat !== 'number' || typeof lon !== 'number' || !isFinite(lat) || !isFinite(lon) ||
+        Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+        return invalid('INVALID_REQUEST', 'location must have a street or a valid lat and lon', 'location');
+      }
+      location = { lat, lon };
+    }
+  }
+
+  if (raw.locale !== undefined && !isLocale(raw.locale)) {
+    return invalid('INVALID_REQUEST', `locale must be one of ${LOCALES.join(', ')}`, 'locale');
+  }
+
+  return {
+    ok: true,
+    value: {
+      message,
+      history,
+      conversationId: (raw.conversationId as string) || undefined,
+      stream: raw.stream as boolean | undefined,
+      location,
+      locale: raw.locale as Locale | undefined
+    }
+  };
+}
+
+export function sendChatError(
+  res: ServerResponse,
+  status: number,
+  code: ChatErrorCode,
+  locale: Locale,
+  extra: Partial<ChatErrorBody> = {}
+): void {
+  const body: ChatErrorBody = { ...extra, error: extra.error || getMessages(locale).errors[code], code };
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
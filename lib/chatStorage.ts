@@ -0,0 +1,303 @@
+import type { Citation } from '@/lib/citations';
+import type { UserLocation } from '@/lib/places';
+import { Locale, isLocale } from '@/lib/i18n';
+
+export interface Message {
+  id: string;
+  text: string;
+  isUser: boolean;
+  timestamp: Date;
+  isError?: boolean;
+  isStreaming?: boolean;
+  isStopped?: boolean;
+  citations?: Citation[];
+  reasoning?: string;
+  cachedAt?: string; // set when the answer was reused from an earlier identical question
+  answerId?: string; // sent back with feedback
+  feedback?: 'up' | 'down';
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  serverConversationId?: string; // the /api/chat conversationId, for server-held history
+  messages: Message[];
+}
+
+export interface ConversationState {
+  activeId: string;
+  conversations: Conversation[]; // most recently updated first
+}
+
+// JSON has no Date type, so dates are stored as ISO strings
+type StoredMessage = Omit<Message, 'timestamp' | 'isStreaming'> & { timestamp: string };
+
+type StoredConversation = Omit<Conversation, 'createdAt' | 'updatedAt' | 'messages'> & {
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+};
+
+interface StoredState {
+  version: 1;
+  activeId: string;
+  conversations: StoredConversation[];
+}
+
+const STORAGE_KEY = 'ama-northstowe:conversations';
+const MAX_CONVERSATIONS = 50;
+const DEFAULT_TITLE = 'New conversation';
+export const WELCOME_MESSAGE_ID = '1';
+
+export function createWelcomeMessage(): Message {
+  return {
+    id: WELCOME_MESSAGE_ID,
+    text: "Hello! Welcome to AMA Northstowe 👋\n\nI'm here to help you with questions about our community. You can ask me about local services, upcoming events, transport links, developments, and anything else related to life in Northstowe.\n\nTry asking something like \"When is the GP surgery opening?\" or click on one of the example questions below!",
+    isUser: false,
+    timestamp: new Date(),
+  };
+}
+
+export function createConversation(): Conversation {
+  const now = new Date();
+  return {
+    id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [createWelcomeMessage()],
+  };
+}
+
+// The first question, shortened, until the resident renames the conversation
+export function titleFromMessages(messages: Message[]): string {
+  const firstQuestion = messages.find(message => message.isUser);
+  if (!firstQuestion) {
+    return DEFAULT_TITLE;
+  }
+  const text = firstQuestion.text.replace(/\s+/g, ' ').trim();
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+export function isDefaultTitle(title: string): boolean {
+  return title === DEFAULT_TITLE;
+}
+
+function reviveDate(value: unknown): Date {
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function reviveMessage(raw: StoredMessage): Message {
+  return { ...raw, timestamp: reviveDate(raw.timestamp) };
+}
+
+export function loadConversations(): ConversationState | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+
+    const stored: StoredState = JSON.parse(raw);
+    if (stored.version !== 1 || !Array.isArray(stored.conversations) || stored.conversations.length === 0) {
+      return null;
+    }
+
+    const conversations = stored.conversations.map(conversation => ({
+      ...conversation,
+      createdAt: reviveDate(conversation.createdAt),
+      updatedAt: reviveDate(conversation.updatedAt),
+      // The welcome text isn't stored, so it is always the current wording
+      messages: [createWelcomeMessage(), ...(conversation.messages || []).map(reviveMessage)],
+    }));
+
+    const activeId = conversations.some(conversation => conversation.id === stored.activeId)
+      ? stored.activeId
+      : conversations[0].id;
+    return { activeId, conversations };
+  } catch (error) {
+    console.error('Failed to load saved conversations:', error);
+    return null;
+  }
+}
+
+function toStored(state: ConversationState, limit: number): StoredState {
+  return {
+    version: 1,
+    activeId: state.activeId,
+    conversations: state.conversations.slice(0, limit).map(conversation => ({
+      ...conversation,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+      messages: conversation.messages
+        .filter(message => message.id !== WELCOME_MESSAGE_ID)
+        .map(message => {
+          // An answer interrupted by a refresh is kept as a stopped answer
+          const { isStreaming, ...rest } = message;
+          return {
+            ...rest,
+            isStopped: rest.isStopped || isStreaming || undefined,
+            timestamp: message.timestamp.toISOString(),
+          };
+        }),
+    })),
+  };
+}
+
+export function saveConversations(state: ConversationState): void {
+  // When storage is full, keep dropping the oldest conversations until it fits
+  for (let limit = MAX_CONVERSATIONS; limit > 0; limit = Math.floor(limit / 2)) {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(toStored(state, limit)));
+      return;
+    } catch (error) {
+      if (limit === 1) {
+        console.error('Failed to save conversations:', error);
+      }
+    }
+  }
+}
+
+function exportableMessages(conversation: Conversation): Message[] {
+  return conversation.messages.filter(message => message.id !== WELCOME_MESSAGE_ID && !message.isStreaming);
+}
+
+function formatExportTime(date: Date): string {
+  return date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function exportConversationMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_Exported from AMA Northstowe on ${formatExportTime(new Date())}. Answers are AI-generated; check important details with the sources._`,
+  ];
+
+  exportableMessages(conversation).forEach(message => {
+    lines.push('', `**${message.isUser ? 'Question' : 'AMA Northstowe'}** (${formatExportTime(message.timestamp)})`, '', message.text);
+
+    const sources = (message.citations || []).filter(citation => citation.url);
+    if (sources.length > 0) {
+      lines.push('', 'Sources:');
+      sources.forEach(citation => {
+        lines.push(`${citation.index}. [${citation.title || citation.domain}](${citation.url})`);
+      });
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function exportConversationJson(conversation: Conversation): string {
+  return JSON.stringify({
+    title: conversation.title,
+    exportedAt: new Date().toISOString(),
+    messages: exportableMessages(conversation).map(message => ({
+      role: message.isUser ? 'user' : 'assistant',
+      text: message.text,
+      timestamp: message.timestamp.toISOString(),
+      citations: message.citations,
+      isError: message.isError || undefined,
+    })),
+  }, null, 2);
+}
+
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function exportFilename(conversation: Conversation, extension: string): string {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return `ama-northstowe-${slug || 'conversation'}.${extension}`;
+}
+
+const LOCATION_KEY = 'ama-northstowe:location';
+
+// About 100 m, which is enough for "nearest" answers without pinpointing a home
+export function roundCoordinate(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// The "my street" or "use my location" setting, sent with every question
+export function loadLocation(): UserLocation | null {
+  try {
+    const raw = window.localStorage.getItem(LOCATION_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    if (stored && typeof stored.street === 'string') {
+      return { street: stored.street };
+    }
+    if (stored && typeof stored.lat === 'number' && typeof stored.lon === 'number') {
+      return { lat: stored.lat, lon: stored.lon };
+    }
+  } catch (error) {
+    console.error('Failed to load location:', error);
+  }
+  return null;
+}
+
+export function saveLocation(location: UserLocation | null): void {
+  try {
+    if (location) {
+      window.localStorage.setItem(LOCATION_KEY, JSON.stringify(location));
+    } else {
+      window.localStorage.removeItem(LOCATION_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to save location:', error);
+  }
+}
+
+const LOCALE_KEY = 'ama-northstowe:locale';
+
+// The language picked in the header; null until the resident picks one
+export function loadLocale(): Locale | null {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch (error) {
+    console.error('Failed to load language:', error);
+    return null;
+  }
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    window.localStorage.setItem(LOCALE_KEY, locale);
+  } catch (error) {
+    console.error('Failed to save language:', error);
+  }
+}
+
+const REMINDERS_KEY = 'ama-northstowe:reminders';
+
+// The token for this browser's push reminders, which stands in for an account
+export function loadReminderToken(): string | null {
+  try {
+    return window.localStorage.getItem(REMINDERS_KEY);
+  } catch (error) {
+    console.error('Failed to load reminders:', error);
+    return null;
+  }
+}
+
+export function saveReminderToken(token: string | null): void {
+  try {
+    if (token) {
+      window.localStorage.setItem(REMINDERS_KEY, token);
+    } else {
+      window.localStorage.removeItem(REMINDERS_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to save reminders:', error);
+  }
+}
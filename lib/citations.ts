@@ -0,0 +1,73 @@
+import type { KnowledgePassage } from '@/lib/knowledgeBase';
+
+export interface Citation {
+  index: number; // 1-based, matches the [n] markers in the answer text
+  url: string;
+  domain: string;
+  title?: string;
+  trusted: boolean; // true when the domain is one of the search_domain_filter domains
+  local?: boolean; // from the curated knowledge base rather than a web search
+}
+
+export interface PerplexitySearchResult {
+  title?: string;
+  url: string;
+  date?: string;
+}
+
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch (error) {
+    return url;
+  }
+}
+
+export function isTrustedDomain(domain: string, allowedDomains: string[]): boolean {
+  return allowedDomains.some(allowed =>
+    domain === allowed || domain.endsWith(`.${allowed}`)
+  );
+}
+
+// Perplexity returns `citations` as a list of URLs and, on newer models,
+// `search_results` with titles. Merge the two into one numbered list.
+export function buildCitations(
+  urls: string[] | undefined,
+  searchResults: PerplexitySearchResult[] | undefined,
+  allowedDomains: string[]
+): Citation[] {
+  const sourceUrls = urls && urls.length > 0
+    ? urls
+    : (searchResults || []).map(result => result.url);
+
+  return sourceUrls.map((url, i) => {
+    const match = (searchResults || []).find(result => result.url === url);
+    const domain = getDomain(url);
+    return {
+      index: i + 1,
+      url,
+      domain,
+      title: match?.title || undefined,
+      trusted: isTrustedDomain(domain, allowedDomains)
+    };
+  });
+}
+
+// One citation per knowledge base document, numbered after any web citations
+export function buildKnowledgeCitations(passages: KnowledgePassage[], startIndex: number): Citation[] {
+  const citations: Citation[] = [];
+  passages.forEach(passage => {
+    if (citations.some(citation => citation.title === `Local guide: ${passage.title}`)) {
+      return;
+    }
+    citations.push({
+      index: startIndex + citations.length,
+      url: passage.url || '',
+      domain: passage.url ? getDomain(passage.url) : 'local guide',
+      title: `Local guide: ${passage.title}`,
+      trusted: true,
+      local: true
+    });
+  });
+  return citations;
+}
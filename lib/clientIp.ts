@@ -0,0 +1,80 @@
+import type { IncomingMessage } from 'http';
+
+// Comma-separated IPs or IPv4 CIDR ranges of proxies allowed to set
+// X-Forwarded-For, e.g. "127.0.0.1,10.0.0.0/8". Empty means trust none.
+function getTrustedProxies(): string[] {
+  return (process.env.TRUSTED_PROXIES || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+function normalizeIp(ip: string): string {
+  const trimmed = ip.trim();
+  // IPv4 addresses arrive as "::ffff:1.2.3.4" on dual-stack sockets
+  return trimmed.startsWith('::ffff:') ? trimmed.slice(7) : trimmed;
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (let i = 0; i < parts.length; i++) {
+    const octet = Number(parts[i]);
+    if (!/^\d{1,3}$/.test(parts[i]) || octet > 255) {
+      return null;
+    }
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function matchesProxy(ip: string, proxy: string): boolean {
+  if (proxy.indexOf('/') === -1) {
+    return normalizeIp(proxy) === ip;
+  }
+
+  const [range, bitsText] = proxy.split('/');
+  const bits = Number(bitsText);
+  const ipValue = ipv4ToNumber(ip);
+  const rangeValue = ipv4ToNumber(range);
+  if (ipValue === null || rangeValue === null || !(bits >= 0 && bits <= 32)) {
+    return false;
+  }
+
+  const blockSize = Math.pow(2, 32 - bits);
+  return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+}
+
+export function isTrustedProxy(ip: string, trustedProxies: string[] = getTrustedProxies()): boolean {
+  return trustedProxies.some(proxy => matchesProxy(ip, proxy));
+}
+
+// Walks X-Forwarded-For from the nearest hop backwards, skipping trusted
+// proxies. The first untrusted address is the client; anything further left
+// could have been written by the client itself and is ignored.
+export function getClientIp(req: IncomingMessage): string {
+  const trustedProxies = getTrustedProxies();
+  const remoteAddress = normalizeIp(req.socket?.remoteAddress || '');
+
+  if (!remoteAddress || !isTrustedProxy(remoteAddress, trustedProxies)) {
+    return remoteAddress || 'unknown';
+  }
+
+  const header = req.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header || '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(Boolean);
+
+  for (let i = forwarded.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(forwarded[i], trustedProxies)) {
+      return forwarded[i];
+    }
+  }
+
+  return forwarded[0] || remoteAddress;
+}
@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface HistoryMessage extends ChatMessage {
+  role: 'user' | 'assistant';
+}
+
+// Conversation storage (in production, use Redis or similar)
+const conversationMap = new Map<string, { messages: HistoryMessage[]; updatedAt: number }>();
+const CONVERSATION_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
+const MAX_CONVERSATIONS = 1000;
+export const HISTORY_TOKEN_BUDGET = 3000; // approximate tokens of prior turns sent upstream
+
+// Rough estimate (~4 characters per token) - good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createConversationId(): string {
+  return randomUUID();
+}
+
+// Perplexity expects user/assistant turns to alternate after the system prompt,
+// starting with a user turn. Since the new question is appended as a user turn,
+// the trimmed history must also end with an assistant turn.
+export function trimHistory(history: HistoryMessage[], tokenBudget: number): HistoryMessage[] {
+  const merged: HistoryMessage[] = [];
+  history.forEach(message => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      merged.push({ role: message.role, content: message.content });
+    }
+  });
+
+  while (merged.length > 0 && merged[merged.length - 1].role !== 'assistant') {
+    merged.pop();
+  }
+
+  // Keep the most recent turns that fit in the budget
+  const trimmed: HistoryMessage[] = [];
+  let usedTokens = 0;
+  for (let i = merged.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(merged[i].content);
+    if (usedTokens + tokens > tokenBudget) {
+      break;
+    }
+    usedTokens += tokens;
+    trimmed.unshift(merged[i]);
+  }
+
+  while (trimmed.length > 0 && trimmed[0].role !== 'user') {
+    trimmed.shift();
+  }
+
+  return trimmed;
+}
+
+export function getConversation(id: string): HistoryMessage[] | undefined {
+  const conversation = conversationMap.get(id);
+  if (!conversation) {
+    return undefined;
+  }
+
+  if (Date.now() - conversation.updatedAt > CONVERSATION_TTL) {
+    conversationMap.delete(id);
+    return undefined;
+  }
+
+  return conversation.messages;
+}
+
+export function saveConversation(id: string, messages: HistoryMessage[]): void {
+  conversationMap.delete(id);
+  conversationMap.set(id, { messages, updatedAt: Date.now() });
+
+  // Maps iterate in insertion order, so the first key is the least recently saved
+  if (conversationMap.size > MAX_CONVERSATIONS) {
+    const oldestKey = conversationMap.keys().next().value;
+    if (oldestKey !== undefined) {
+      conversationMap.delete(oldestKey);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { logger } from '@/lib/logger';
+
+// Outgoing email behind one small interface, so the digest doesn't care how
+// mail leaves. SMTP_URL picks the built-in SMTP client; EMAIL_TRANSPORT=log
+// writes emails to the logs instead, for development. With neither, email
+// subscriptions are not offered.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  headers?: Record<string, string>; // e.g. List-Unsubscribe
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+function getFrom(): string {
+  return process.env.EMAIL_FROM || 'AMA Northstowe <noreply@localhost>';
+}
+
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+// RFC 2047 encoded-word for subjects and names outside ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+export function buildMimeMessage(message: EmailMessage, from: string, now: Date = new Date()): string {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const headers: Record<string, string> = {
+    From: from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: now.toUTCString().replace('GMT', '+0000'),
+    'Message-ID': `<${randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Content-Transfer-Encoding': 'base64',
+    ...message.headers
+  };
+  const body = (Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+  return `${Object.keys(headers).map(name => `${name}: ${headers[name]}`).join('\r\n')}\r\n\r\n${body}`;
+}
+
+// Reads SMTP replies off a socket. A reply is complete on a line with a
+// space after the code; "250-" lines continue it.
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: { code: number; text: string }[] = [];
+  let waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  let failure: Error | null = null;
+  let failed: ((error: Error) => void) | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join('\n') };
+        lines = [];
+        if (waiting) {
+          const resolve = waiting;
+          waiting = null;
+          failed = null;
+          resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+      newline = buffer.indexOf('\n');
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    if (failed) {
+      failed(error);
+    }
+  };
+
+  const attach = (target: net.Socket) => {
+    target.on('data', onData);
+    target.on('error', onError);
+    target.on('timeout', () => onError(new Error('SMTP server timed out')));
+    target.on('close', () => onError(new Error('SMTP connection closed')));
+  };
+  attach(socket);
+
+  return {
+    attach,
+    next(): Promise<{ code: number; text: string }> {
+      const queued = replies.shift();
+      if (queued) return Promise.resolve(queued);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        waiting = resolve;
+        failed = reject;
+      });
+    }
+  };
+}
+
+export function createSmtpTransport(smtpUrl: string, from: string = getFrom()): EmailTransport {
+  const url = new URL(smtpUrl);
+  const secure = url.protocol === 'smtps:';
+  const host = url.hostname;
+  const port = Number(url.port) || (secure ? 465 : 587);
+  const user = decodeURIComponent(url.username);
+  const password = decodeURIComponent(url.password);
+
+  return {
+    name: 'smtp',
+
+    async send(message: EmailMessage): Promise<void> {
+      let socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.setTimeout(SMTP_TIMEOUT_MS);
+      const reader = createReplyReader(socket);
+
+      const expect = async (codes: number[]) => {
+        const reply = await reader.next();
+        if (codes.indexOf(reply.code) === -1) {
+          throw new Error(`SMTP ${reply.text.split('\n').pop()}`);
+        }
+        return reply;
+      };
+      const command = (line: string, codes: number[]) => {
+        socket.write(`${line}\r\n`);
+        return expect(codes);
+      };
+
+      try {
+        await expect([220]);
+        const hello = await command('EHLO localhost', [250]);
+
+        // Upgrade plain connections whenever the server offers it
+        if (!secure && /\bSTARTTLS\b/i.test(hello.text)) {
+          await command('STARTTLS', [220]);
+          socket.removeAllListeners();
+          socket = tls.connect({ socket, servername: host });
+          socket.setTimeout(SMTP_TIMEOUT_MS);
+          reader.attach(socket);
+          await command('EHLO localhost', [250]);
+        }
+
+        if (user) {
+          await command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${password}`).toString('base64')}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${addressOf(from)}>`, [250]);
+        await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+        // The body is base64, so no line can start with the terminating dot
+        await command(`${buildMimeMessage(message, from)}\r\n.`, [250]);
+        socket.write('QUIT\r\n');
+      } finally {
+        socket.end();
+      }
+    }
+  };
+}
+
+// For development: the email is logged instead of sent
+export const logTransport: EmailTransport = {
+  name: 'log',
+
+  async send(message: EmailMessage): Promise<void> {
+    logger.info('email_logged', { to: message.to, subject: message.subject, text: message.text });
+  }
+};
+
+export function getEmailTransport(): EmailTransport | null {
+  if (process.env.SMTP_URL) {
+    return createSmtpTransport(process.env.SMTP_URL);
+  }
+  return process.env.EMAIL_TRANSPORT === 'log' ? logTransport : null;
+}
@@ -0,0 +1,148 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Citation } from '@/lib/citations';
+import { normalizeQuery } from '@/lib/responseCache';
+import { createJsonFileStore } from '@/lib/jsonFileStore';
+
+// Everything needed to judge an answer later, captured when it was given
+export interface AnswerRecord {
+  id: string;
+  question: string;
+  enhancedQuery: string;
+  intentId: string;
+  source: string; // llm, cache, correction, knowledge-base or bins
+  response: string;
+  citations: Citation[];
+  model?: string; // "<provider>:<model>" for model answers
+  latencyMs: number;
+  createdAt: number;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackEntry {
+  answer: AnswerRecord;
+  rating: FeedbackRating;
+  note?: string; // the resident's "what was wrong"
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A moderator's answer, given instead of a fresh one when the same question comes again
+export interface CorrectedAnswer {
+  question: string; // as asked in the rated answer
+  response: string;
+  answerId: string;
+  createdAt: number;
+}
+
+export interface FeedbackFilter {
+  rating?: FeedbackRating;
+  intentId?: string;
+}
+
+interface FeedbackFile {
+  feedback: Record<string, FeedbackEntry>;
+  corrections: Record<string, CorrectedAnswer>; // keyed by normalised question
+}
+
+export const MAX_FEEDBACK_NOTE_LENGTH = 1000;
+export const MAX_CORRECTION_LENGTH = 8000;
+const MAX_RECENT_ANSWERS = 1000;
+
+// Answers are only kept in memory until someone rates them
+const recentAnswers = new Map<string, AnswerRecord>();
+
+// FEEDBACK_FILE sets the path; the default sits beside the rate limit store
+const store = createJsonFileStore<FeedbackFile>(
+  'feedback',
+  () => process.env.FEEDBACK_FILE || path.join(process.cwd(), '.data', 'feedback.json'),
+  () => ({ feedback: {}, corrections: {} })
+);
+
+// Returns the id the browser sends back with its rating
+export function recordAnswer(answer: Omit<AnswerRecord, 'id' | 'createdAt'>, now: number = Date.now()): string {
+  const id = randomUUID();
+  recentAnswers.set(id, { ...answer, id, createdAt: now });
+
+  // Maps iterate in insertion order, so the first key is the oldest answer
+  if (recentAnswers.size > MAX_RECENT_ANSWERS) {
+    const oldestId = recentAnswers.keys().next().value;
+    if (oldestId !== undefined) {
+      recentAnswers.delete(oldestId);
+    }
+  }
+  return id;
+}
+
+// Rating the same answer again replaces the earlier rating. Returns null when
+// the answer is no longer known, e.g. after a restart.
+export function saveFeedback(
+  answerId: string,
+  rating: FeedbackRating,
+  note?: string,
+  now: number = Date.now()
+): FeedbackEntry | null {
+  const data = store.get();
+  const existing = data.feedback[answerId];
+  const answer = existing ? existing.answer : recentAnswers.get(answerId);
+  if (!answer) {
+    return null;
+  }
+
+  const entry: FeedbackEntry = {
+    answer,
+    rating,
+    note: note || (existing && existing.rating === rating ? existing.note : undefined),
+    createdAt: existing ? existing.createdAt : now,
+    updatedAt: now
+  };
+  data.feedback[answerId] = entry;
+  store.save();
+  return entry;
+}
+
+export function getFeedback(answerId: string): FeedbackEntry | undefined {
+  return store.get().feedback[answerId];
+}
+
+// Most recently rated first
+export function listFeedback(filter: FeedbackFilter = {}): FeedbackEntry[] {
+  const data = store.get();
+  return Object.keys(data.feedback)
+    .map(id => data.feedback[id])
+    .filter(entry => (!filter.rating || entry.rating === filter.rating) &&
+      (!filter.intentId || entry.answer.intentId === filter.intentId))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getCorrectedAnswer(question: string): CorrectedAnswer | null {
+  return store.get().corrections[normalizeQuery(question)] || null;
+}
+
+// Attaches a moderator's answer to the rated answer's question. An empty
+// response removes the correction.
+export function saveCorrection(answerId: string, response: string, now: number = Date.now()): CorrectedAnswer | null {
+  const data = store.get();
+  const entry = data.feedback[answerId];
+  if (!entry) {
+    return null;
+  }
+
+  const key = normalizeQuery(entry.answer.question);
+  if (!response.trim()) {
+    delete data.corrections[key];
+    store.save();
+    return null;
+  }
+
+  const correction: CorrectedAnswer = {
+    question: entry.answer.question,
+    response: response.trim(),
+    answerId,
+    createdAt: now
+  };
+  data.corrections[key] = correction;
+  store.save();
+  return correction;
+}
@@ -0,0 +1,138 @@
+import { DEFAULT_LLM_CHAIN, LlmError, LlmTarget, getLlmChain, parseLlmChain } from '@/lib/llm';
+import { getLastLlmSuccess } from '@/lib/llm/stats';
+import { getRateLimitStore } from '@/lib/rateLimit';
+
+export interface HealthCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+  checkedAt?: string; // set when the result comes from a cached probe
+}
+
+export interface ProbeResult {
+  target: string;
+  status: 'success' | 'failed' | 'skipped';
+  latencyMs?: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+// Health checks run on every deploy and from uptime monitors, so the provider
+// is probed at most this often. A real answer within the window counts too.
+const PROVIDER_PROBE_TTL = 5 * 60 * 1000;
+
+const startedAt = Date.now();
+let providerProbe: { check: HealthCheck; at: number } | null = null;
+let providerProbeInFlight: Promise<HealthCheck> | null = null;
+
+export function getUptimeSeconds(now: number = Date.now()): number {
+  return Math.round((now - startedAt) / 1000);
+}
+
+export function checkConfig(): HealthCheck {
+  const configured = parseLlmChain(process.env.LLM_CHAIN || DEFAULT_LLM_CHAIN);
+  const available = getLlmChain();
+  return {
+    name: 'config',
+    ok: available.length > 0,
+    detail: available.length > 0
+      ? `${available.length} of ${configured.length} models have credentials`
+      : 'No model in LLM_CHAIN has an API key configured'
+  };
+}
+
+async function pingProvider(target: LlmTarget): Promise<HealthCheck> {
+  try {
+    await target.provider.ping();
+    return { name: 'provider', ok: true, detail: `${target.provider.name} reachable` };
+  } catch (error) {
+    const status = error instanceof LlmError && error.status ? ` (${error.status})` : '';
+    return { name: 'provider', ok: false, detail: `${target.provider.name} unreachable${status}` };
+  }
+}
+
+export async function checkProvider(now: number = Date.now()): Promise<HealthCheck> {
+  const lastSuccess = getLastLlmSuccess();
+  if (lastSuccess && now - lastSuccess.at < PROVIDER_PROBE_TTL) {
+    return {
+      name: 'provider',
+      ok: true,
+      detail: `${lastSuccess.provider} answered a question`,
+      checkedAt: new Date(lastSuccess.at).toISOString()
+    };
+  }
+
+  if (providerProbe && now - providerProbe.at < PROVIDER_PROBE_TTL) {
+    return { ...providerProbe.check, checkedAt: new Date(providerProbe.at).toISOString() };
+  }
+
+  const target = getLlmChain()[0];
+  if (!target) {
+    return { name: 'provider', ok: false, detail: 'No provider configured' };
+  }
+
+  // Concurrent health checks share one probe
+  if (!providerProbeInFlight) {
+    providerProbeInFlight = pingProvider(target).then(check => {
+      providerProbe = { check, at: Date.now() };
+      providerProbeInFlight = null;
+      return check;
+    });
+  }
+  return providerProbeInFlight;
+}
+
+export async function checkRateLimitStore(): Promise<HealthCheck> {
+  const store = getRateLimitStore();
+  try {
+    await store.getHits('health:probe');
+    if (store.check) {
+      await store.check();
+    }
+    return { name: 'rateLimitStore', ok: true, detail: process.env.RATE_LIMIT_STORE === 'file' ? 'file' : 'memory' };
+  } catch (error) {
+    return { name: 'rateLimitStore', ok: false, detail: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getReadiness(): Promise<{ ok: boolean; checks: HealthCheck[] }> {
+  const checks = [checkConfig(), await checkProvider(), await checkRateLimitStore()];
+  return { ok: checks.every(check => check.ok), checks };
+}
+
+// Sends a short test message to every model in LLM_CHAIN, one at a time and
+// without fallback, so a misconfigured entry shows up on its own. Spends credit.
+export async function probeLlmTargets(): Promise<ProbeResult[]> {
+  const targets = parseLlmChain(process.env.LLM_CHAIN || DEFAULT_LLM_CHAIN);
+  const results: ProbeResult[] = [];
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    const name = `${target.provider.name}:${target.model}`;
+
+    if (!target.provider.isConfigured()) {
+      results.push({ target: name, status: 'skipped', error: 'Provider API key not configured' });
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      await target.provider.complete({
+        messages: [{ role: 'user', content: 'Hello, this is a test message.' }],
+        maxTokens: 5,
+        timeoutMs: 10000
+      }, target.model);
+      results.push({ target: name, status: 'success', latencyMs: Date.now() - started });
+    } catch (error) {
+      results.push({
+        target: name,
+        status: 'failed',
+        latencyMs: Date.now() - started,
+        httpStatus: error instanceof LlmError ? error.status : undefined,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return results;
+}
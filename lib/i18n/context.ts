@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+import { en } from '@/lib/i18n/en';
+import type { Messages } from '@/lib/i18n/types';
+
+// The resident's catalogue for the chat page; anything outside a provider
+// (the admin pages) gets English
+export const MessagesContext = createContext<Messages>(en);
+
+export function useMessages(): Messages {
+  return useContext(MessagesContext);
+}
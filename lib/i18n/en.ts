@@ -0,0 +1,191 @@
+import type { Messages } from '@/lib/i18n/types';
+
+function plural(count: number, one: string, other: string): string {
+  return `${count} ${count === 1 ? one : other}`;
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+}
+
+export const en: Messages = {
+  languageName: 'English',
+  englishName: 'English',
+  pageTitle: 'AMA Northstowe - Your Local Community Assistant',
+  pageDescription: 'Ask questions about Northstowe - local services, events, transport, and community information.',
+  tagline: 'Your local community assistant',
+  welcome: "Hello! Welcome to AMA Northstowe 👋\n\nI'm here to help you with questions about our community. You can ask me about local services, upcoming events, transport links, developments, and anything else related to life in Northstowe.\n\nTry asking something like \"When is the GP surgery opening?\" or click on one of the example questions below!",
+  sampleQuestions: [
+    'When is the GP surgery opening?',
+    'What are the upcoming town council meetings?',
+    'Where is the nearest Tesco?',
+    'When will the secondary school be ready?',
+    'What bus services are available to Cambridge?',
+    'Are there any community events this month?'
+  ],
+  tryAsking: 'Try asking about:',
+  inputPlaceholder: 'Ask me anything about Northstowe...',
+  sendMessage: 'Send message',
+  stopGenerating: 'Stop generating',
+  showConversations: 'Show conversations',
+  languageLabel: 'Language',
+  thinking: 'Thinking...',
+  stopped: 'Stopped',
+  savedAnswer: age => `Saved answer from ${age}`,
+  answerAge: minutes => {
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${plural(minutes, 'minute', 'minutes')} ago`;
+    return `${plural(Math.floor(minutes / 60), 'hour', 'hours')} ago`;
+  },
+  waitBeforeSending: seconds => `Please wait ${seconds} seconds before sending another message.`,
+  countdown: seconds => {
+    if (seconds < 60) return `${seconds} seconds`;
+    const rest = seconds % 60;
+    return `${Math.floor(seconds / 60)}:${rest < 10 ? '0' : ''}${rest} minutes`;
+  },
+  rateLimitCountdown: countdown => `Rate limit reached. You can ask another question in ${countdown}.`,
+  rateLimitWait: 'Rate limit reached. Please wait a moment.',
+  questionsLeft: (remaining, limit) => `${remaining} of ${limit} questions left`,
+  moreAvailableAt: time => ` - more available at ${time}`,
+  footer: 'Powered by AI • For Northstowe residents',
+  errors: {
+    METHOD_NOT_ALLOWED: 'Sorry, something went wrong. Please try again.',
+    INVALID_REQUEST: 'Sorry, something went wrong. Please try again.',
+    MESSAGE_REQUIRED: 'Please type a question first.',
+    MESSAGE_TOO_LONG: 'That question is too long. Please shorten it and try again.',
+    HISTORY_TOO_LONG: 'This conversation has got too long. Please start a new one.',
+    PAYLOAD_TOO_LARGE: 'This conversation has got too long. Please start a new one.',
+    PROMPT_INJECTION: "I can only answer questions about Northstowe, so I haven't sent that one. Please rephrase it as a question about the town.",
+    OFF_TOPIC: "I'm sorry, I can only answer questions related to Northstowe. Please ask me about local services, facilities, developments, or community information in Northstowe.",
+    RATE_LIMITED: 'Too many requests. Please wait a moment before asking another question.',
+    NOT_CONFIGURED: 'The assistant is not set up yet. Please try again later.',
+    UPSTREAM_AUTH: 'The assistant is not set up correctly. Please try again later.',
+    UPSTREAM_RATE_LIMITED: 'The answer service is busy right now. Please try again in a minute.',
+    UPSTREAM_ERROR: 'Sorry, something went wrong. Please try again.',
+    NO_ANSWER: "Sorry, I couldn't find an answer to that. Please try rephrasing your question.",
+    INVALID_API_KEY: "This site's access to the assistant is not set up correctly.",
+    ORIGIN_NOT_ALLOWED: 'The assistant is not enabled for this site.',
+    QUOTA_EXCEEDED: "This site has used up today's questions. Please try again tomorrow, or ask on the AMA Northstowe website."
+  },
+  apiErrors: {
+    METHOD_NOT_ALLOWED: 'Sorry, something went wrong. Please try again.',
+    INVALID_REQUEST: 'Sorry, something went wrong. Please try again.',
+    RATE_LIMITED: 'Too many requests. Please wait a moment before trying again.',
+    ADDRESS_REQUIRED: 'Please enter a Northstowe street or postcode.',
+    ADDRESS_NOT_FOUND: "We couldn't find that street or postcode in Northstowe.",
+    ANSWER_EXPIRED: 'This answer is too old to rate.',
+    SUBSCRIPTION_NOT_FOUND: "This link doesn't match any reminders. You may have unsubscribed already.",
+    TOPICS_REQUIRED: 'Please choose at least one kind of reminder.',
+    INVALID_EMAIL: 'Please enter a valid email address.',
+    STREET_REQUIRED: 'Please enter your street for bin reminders.',
+    UNKNOWN_STREET: "That street isn't in our Northstowe list yet.",
+    CHANNEL_UNAVAILABLE: "That kind of reminder isn't available at the moment.",
+    TOO_MANY_BROWSERS: 'Too many browsers have subscribed from this network.',
+    EMAIL_FAILED: "We couldn't send the confirmation email. Please try again later."
+  },
+  conversations: {
+    label: 'Conversations',
+    newConversation: 'New conversation',
+    nameLabel: 'Conversation name',
+    saveName: 'Save name',
+    cancelRename: 'Cancel rename',
+    exportMarkdown: 'Export as Markdown',
+    exportJson: 'Export as JSON',
+    rename: 'Rename',
+    renameLabel: 'Rename conversation',
+    delete: 'Delete',
+    deleteLabel: 'Delete conversation',
+    confirmDelete: title => `Delete "${title}"? This can't be undone.`
+  },
+  feedback: {
+    helpful: 'Helpful answer',
+    unhelpful: 'Unhelpful answer',
+    thanks: 'Thanks for the feedback',
+    failed: "Sorry, that couldn't be saved",
+    whatWasWrong: 'What was wrong? (optional)',
+    send: 'Send',
+    skip: 'Skip'
+  },
+  sources: {
+    count: count => plural(count, 'source', 'sources'),
+    notOfficial: count => `${count} not from an official council site`,
+    unofficial: 'unofficial',
+    unofficialTitle: 'This source is outside the official council websites we search'
+  },
+  reasoning: {
+    show: 'Show reasoning',
+    thinking: 'Thinking... show reasoning'
+  },
+  location: {
+    set: 'Set location',
+    near: street => `Near ${street}`,
+    usingYours: 'Using your location',
+    explanation: 'Used to answer questions like "where is the nearest pharmacy?". It is kept in this browser and sent with your questions.',
+    useMine: 'Use my location',
+    finding: 'Finding you...',
+    unavailable: "Your location isn't available. Try choosing your street instead.",
+    myStreet: 'My street',
+    save: 'Save',
+    unknownStreet: "That street isn't in our Northstowe list yet.",
+    stop: 'Stop using my location'
+  },
+  announcementsLabel: 'Announcements',
+  binAnswer: {
+    round: (street, day) => `**${street}** is on the ${day} collection round. Next collections:`,
+    bin: 'Bin',
+    nextCollection: 'Next collection',
+    moved: date => `moved from ${date} for the bank holiday`,
+    notice: 'Notice',
+    putOut: 'Put bins out by 6am on collection day. You can confirm your dates on the [South Cambridgeshire District Council bin collection page](https://www.scambs.gov.uk/bins-and-recycling).'
+  },
+  widget: {
+    title: 'Ask about Northstowe',
+    intro: 'Ask a question about Northstowe: bins, schools, transport, events and more.',
+    poweredBy: 'Answers by AMA Northstowe',
+    notSetUp: "This widget isn't set up correctly."
+  },
+  notifications: {
+    label: 'Reminders',
+    intro: 'Get a reminder the evening before bin day, before council meetings and when there is a new announcement.',
+    topics: {
+      bins: 'Bin days',
+      meetings: 'Council meetings',
+      announcements: 'Announcements'
+    },
+    street: 'Your street (for bin days)',
+    push: 'Notifications in this browser',
+    email: 'Email digest',
+    emailAddress: 'Email address',
+    subscribe: 'Turn on reminders',
+    save: 'Save changes',
+    saved: 'Your reminders are updated.',
+    unsubscribe: 'Turn off reminders',
+    subscribed: 'Reminders are on for this browser.',
+    checkEmail: 'Check your inbox for a link to confirm your reminders.',
+    pushBlocked: 'Notifications are blocked for this site. Allow them in your browser settings, or use email instead.',
+    unavailable: "Reminders aren't available yet.",
+    failed: "Sorry, that didn't work. Please try again.",
+    binNames: {
+      black: 'black bin (general rubbish)',
+      blue: 'blue bin (dry recycling)',
+      green: 'green bin (garden and food waste)'
+    },
+    binsTitle: 'Bins tomorrow',
+    binsBody: (bins, day) => `${day}: ${joinList(bins)}. Put ${bins.length === 1 ? 'it' : 'them'} out tonight.`,
+    meetingTitle: committee => `${committee} meeting`,
+    meetingBody: (when, venue) => `${when}${venue ? ` at ${venue}` : ''}. Residents are welcome to attend.`,
+    announcementTitle: 'Northstowe announcement',
+    digestSubject: 'Your Northstowe reminders',
+    digestIntro: 'Here are your reminders from AMA Northstowe.',
+    manageLink: url => `Change your reminders: ${url}`,
+    unsubscribeLink: url => `Unsubscribe: ${url}`,
+    confirmSubject: 'Confirm your Northstowe reminders',
+    confirmBody: url => `Someone, hopefully you, asked for Northstowe reminders to be sent to this address.\n\nConfirm them here: ${url}\n\nIf it wasn't you, ignore this email and nothing more will be sent.`,
+    manageSubject: 'Your Northstowe reminders',
+    manageBody: url => `This address already gets Northstowe reminders. To change or stop them, go to: ${url}`,
+    pageTitle: 'Your reminders',
+    confirmed: 'Your email address is confirmed. Reminders start from the next round.',
+    unsubscribed: "You're unsubscribed, and no more reminders will be sent.",
+    notFound: "This link doesn't match any reminders. You may have unsubscribed already."
+  }
+};
@@ -0,0 +1,36 @@
+import { en } from '@/lib/i18n/en';
+import { pl } from '@/lib/i18n/pl';
+import { ro } from '@/lib/i18n/ro';
+import type { Locale, Messages } from '@/lib/i18n/types';
+
+export type { Locale, Messages } from '@/lib/i18n/types';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGUES: Record<Locale, Messages> = { en, pl, ro };
+
+export const LOCALES = Object.keys(CATALOGUES) as Locale[];
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && LOCALES.indexOf(value as Locale) !== -1;
+}
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGUES[locale] || CATALOGUES[DEFAULT_LOCALE];
+}
+
+// The first supported language in an Accept-Language header or the browser's
+// navigator.languages, e.g. "pl-PL,pl;q=0.9,en;q=0.8" gives "pl"
+export function matchLocale(preferences: string | readonly string[] | undefined): Locale | null {
+  const list = typeof preferences === 'string'
+    ? preferences.split(',').map(part => part.split(';')[0])
+    : preferences || [];
+
+  for (let i = 0; i < list.length; i++) {
+    const language = list[i].trim().toLowerCase().split('-')[0];
+    if (isLocale(language)) {
+      return language;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,195 @@
+import type { Messages } from '@/lib/i18n/types';
+
+// 1 minuta, 2-4 minuty (but 12-14 minut), 5+ minut
+function plural(count: number, one: string, few: string, many: string): string {
+  if (count === 1) return `${count} ${one}`;
+  const lastDigit = count % 10;
+  const lastTwo = count % 100;
+  return `${count} ${lastDigit >= 2 && lastDigit <= 4 && (lastTwo < 12 || lastTwo > 14) ? few : many}`;
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} i ${items[items.length - 1]}` : items.join('');
+}
+
+export const pl: Messages = {
+  languageName: 'Polski',
+  englishName: 'Polish',
+  pageTitle: 'AMA Northstowe - Twój lokalny asystent',
+  pageDescription: 'Zadawaj pytania o Northstowe - lokalne usługi, wydarzenia, transport i informacje dla mieszkańców.',
+  tagline: 'Twój lokalny asystent',
+  welcome: 'Dzień dobry! Witamy w AMA Northstowe 👋\n\nPomagam w pytaniach o naszą społeczność. Możesz zapytać o lokalne usługi, nadchodzące wydarzenia, połączenia komunikacyjne, nowe inwestycje i wszystko, co dotyczy życia w Northstowe.\n\nZapytaj na przykład „Kiedy zostanie otwarta przychodnia?” albo kliknij jedno z przykładowych pytań poniżej!',
+  sampleQuestions: [
+    'Kiedy zostanie otwarta przychodnia?',
+    'Kiedy są najbliższe posiedzenia rady miasta?',
+    'Gdzie jest najbliższy Tesco?',
+    'Kiedy będzie gotowa szkoła średnia?',
+    'Jakie autobusy jeżdżą do Cambridge?',
+    'Czy w tym miesiącu są jakieś wydarzenia dla mieszkańców?'
+  ],
+  tryAsking: 'Zapytaj na przykład o:',
+  inputPlaceholder: 'Zapytaj o cokolwiek w Northstowe...',
+  sendMessage: 'Wyślij wiadomość',
+  stopGenerating: 'Zatrzymaj odpowiedź',
+  showConversations: 'Pokaż rozmowy',
+  languageLabel: 'Język',
+  thinking: 'Myślę...',
+  stopped: 'Zatrzymano',
+  savedAnswer: age => `Zapisana odpowiedź sprzed ${age}`,
+  answerAge: minutes => {
+    if (minutes < 1) return 'chwili';
+    if (minutes < 60) return plural(minutes, 'minuty', 'minut', 'minut');
+    return plural(Math.floor(minutes / 60), 'godziny', 'godzin', 'godzin');
+  },
+  waitBeforeSending: seconds => `Poczekaj ${plural(seconds, 'sekundę', 'sekundy', 'sekund')} przed wysłaniem kolejnej wiadomości.`,
+  countdown: seconds => {
+    if (seconds < 60) return plural(seconds, 'sekundę', 'sekundy', 'sekund');
+    const rest = seconds % 60;
+    return `${Math.floor(seconds / 60)}:${rest < 10 ? '0' : ''}${rest} min`;
+  },
+  rateLimitCountdown: countdown => `Osiągnięto limit pytań. Kolejne pytanie możesz zadać za ${countdown}.`,
+  rateLimitWait: 'Osiągnięto limit pytań. Poczekaj chwilę.',
+  questionsLeft: (remaining, limit) => `Pozostało pytań: ${remaining} z ${limit}`,
+  moreAvailableAt: time => ` - kolejne od ${time}`,
+  footer: 'Działa dzięki AI • Dla mieszkańców Northstowe',
+  errors: {
+    METHOD_NOT_ALLOWED: 'Przepraszamy, coś poszło nie tak. Spróbuj ponownie.',
+    INVALID_REQUEST: 'Przepraszamy, coś poszło nie tak. Spróbuj ponownie.',
+    MESSAGE_REQUIRED: 'Najpierw wpisz pytanie.',
+    MESSAGE_TOO_LONG: 'To pytanie jest za długie. Skróć je i spróbuj ponownie.',
+    HISTORY_TOO_LONG: 'Ta rozmowa jest już za długa. Zacznij nową.',
+    PAYLOAD_TOO_LARGE: 'Ta rozmowa jest już za długa. Zacznij nową.',
+    PROMPT_INJECTION: 'Odpowiadam tylko na pytania o Northstowe, więc tego nie wysłałem. Zadaj je jako pytanie o miasto.',
+    OFF_TOPIC: 'Przepraszam, odpowiadam tylko na pytania związane z Northstowe. Zapytaj o lokalne usługi, obiekty, inwestycje lub informacje dla mieszkańców Northstowe.',
+    RATE_LIMITED: 'Zbyt wiele pytań. Poczekaj chwilę przed zadaniem kolejnego.',
+    NOT_CONFIGURED: 'Asystent nie jest jeszcze skonfigurowany. Spróbuj później.',
+    UPSTREAM_AUTH: 'Asystent jest źle skonfigurowany. Spróbuj później.',
+    UPSTREAM_RATE_LIMITED: 'Usługa odpowiedzi jest teraz zajęta. Spróbuj ponownie za minutę.',
+    UPSTREAM_ERROR: 'Przepraszamy, coś poszło nie tak. Spróbuj ponownie.',
+    NO_ANSWER: 'Przepraszam, nie znalazłem odpowiedzi. Spróbuj sformułować pytanie inaczej.',
+    INVALID_API_KEY: 'Dostęp tej strony do asystenta jest źle skonfigurowany.',
+    ORIGIN_NOT_ALLOWED: 'Asystent nie jest włączony dla tej strony.',
+    QUOTA_EXCEEDED: 'Ta strona wykorzystała już dzisiejszy limit pytań. Spróbuj jutro albo zapytaj na stronie AMA Northstowe.'
+  },
+  apiErrors: {
+    METHOD_NOT_ALLOWED: 'Przepraszamy, coś poszło nie tak. Spróbuj ponownie.',
+    INVALID_REQUEST: 'Przepraszamy, coś poszło nie tak. Spróbuj ponownie.',
+    RATE_LIMITED: 'Zbyt wiele prób. Poczekaj chwilę i spróbuj ponownie.',
+    ADDRESS_REQUIRED: 'Wpisz ulicę lub kod pocztowy w Northstowe.',
+    ADDRESS_NOT_FOUND: 'Nie znaleźliśmy tej ulicy ani kodu pocztowego w Northstowe.',
+    ANSWER_EXPIRED: 'Ta odpowiedź jest zbyt stara, by ją ocenić.',
+    SUBSCRIPTION_NOT_FOUND: 'Ten link nie pasuje do żadnych przypomnień. Możliwe, że wypisano Cię już wcześniej.',
+    TOPICS_REQUIRED: 'Wybierz co najmniej jeden rodzaj przypomnień.',
+    INVALID_EMAIL: 'Wpisz poprawny adres e-mail.',
+    STREET_REQUIRED: 'Wpisz swoją ulicę, aby dostawać przypomnienia o odbiorze śmieci.',
+    UNKNOWN_STREET: 'Tej ulicy nie ma jeszcze na naszej liście ulic Northstowe.',
+    CHANNEL_UNAVAILABLE: 'Ten rodzaj przypomnień jest teraz niedostępny.',
+    TOO_MANY_BROWSERS: 'Z tej sieci zapisało się już zbyt wiele przeglądarek.',
+    EMAIL_FAILED: 'Nie udało się wysłać e-maila z potwierdzeniem. Spróbuj ponownie później.'
+  },
+  conversations: {
+    label: 'Rozmowy',
+    newConversation: 'Nowa rozmowa',
+    nameLabel: 'Nazwa rozmowy',
+    saveName: 'Zapisz nazwę',
+    cancelRename: 'Anuluj zmianę nazwy',
+    exportMarkdown: 'Eksportuj jako Markdown',
+    exportJson: 'Eksportuj jako JSON',
+    rename: 'Zmień nazwę',
+    renameLabel: 'Zmień nazwę rozmowy',
+    delete: 'Usuń',
+    deleteLabel: 'Usuń rozmowę',
+    confirmDelete: title => `Usunąć „${title}”? Tego nie można cofnąć.`
+  },
+  feedback: {
+    helpful: 'Pomocna odpowiedź',
+    unhelpful: 'Niepomocna odpowiedź',
+    thanks: 'Dziękujemy za opinię',
+    failed: 'Przepraszamy, nie udało się zapisać',
+    whatWasWrong: 'Co było nie tak? (opcjonalnie)',
+    send: 'Wyślij',
+    skip: 'Pomiń'
+  },
+  sources: {
+    count: count => plural(count, 'źródło', 'źródła', 'źródeł'),
+    notOfficial: count => `${count} spoza oficjalnych stron rad`,
+    unofficial: 'nieoficjalne',
+    unofficialTitle: 'To źródło nie należy do oficjalnych stron rad, które przeszukujemy'
+  },
+  reasoning: {
+    show: 'Pokaż tok rozumowania',
+    thinking: 'Myślę... pokaż tok rozumowania'
+  },
+  location: {
+    set: 'Ustaw lokalizację',
+    near: street => `W pobliżu: ${street}`,
+    usingYours: 'Używam Twojej lokalizacji',
+    explanation: 'Służy do odpowiedzi na pytania typu „gdzie jest najbliższa apteka?”. Jest zapisana w tej przeglądarce i wysyłana z Twoimi pytaniami.',
+    useMine: 'Użyj mojej lokalizacji',
+    finding: 'Szukam Cię...',
+    unavailable: 'Twoja lokalizacja jest niedostępna. Wybierz zamiast tego swoją ulicę.',
+    myStreet: 'Moja ulica',
+    save: 'Zapisz',
+    unknownStreet: 'Tej ulicy nie ma jeszcze na naszej liście ulic Northstowe.',
+    stop: 'Nie używaj mojej lokalizacji'
+  },
+  announcementsLabel: 'Ogłoszenia',
+  binAnswer: {
+    round: (street, day) => `**${street}**: dzień wywozu to ${day}. Najbliższe odbiory:`,
+    bin: 'Pojemnik',
+    nextCollection: 'Najbliższy odbiór',
+    moved: date => `przesunięty z ${date} z powodu święta`,
+    notice: 'Komunikat',
+    putOut: 'Wystaw pojemniki do 6:00 w dniu wywozu. Daty możesz sprawdzić na [stronie wywozu odpadów South Cambridgeshire District Council](https://www.scambs.gov.uk/bins-and-recycling).'
+  },
+  widget: {
+    title: 'Zapytaj o Northstowe',
+    intro: 'Zadaj pytanie o Northstowe: śmieci, szkoły, transport, wydarzenia i nie tylko.',
+    poweredBy: 'Odpowiedzi: AMA Northstowe',
+    notSetUp: 'Ten widżet jest źle skonfigurowany.'
+  },
+  notifications: {
+    label: 'Przypomnienia',
+    intro: 'Dostaniesz przypomnienie wieczorem przed wywozem śmieci, przed posiedzeniami rady i gdy pojawi się nowe ogłoszenie.',
+    topics: {
+      bins: 'Wywóz śmieci',
+      meetings: 'Posiedzenia rady',
+      announcements: 'Ogłoszenia'
+    },
+    street: 'Twoja ulica (dla wywozu śmieci)',
+    push: 'Powiadomienia w tej przeglądarce',
+    email: 'Podsumowanie e-mailem',
+    emailAddress: 'Adres e-mail',
+    subscribe: 'Włącz przypomnienia',
+    save: 'Zapisz zmiany',
+    saved: 'Przypomnienia zostały zaktualizowane.',
+    unsubscribe: 'Wyłącz przypomnienia',
+    subscribed: 'Przypomnienia są włączone w tej przeglądarce.',
+    checkEmail: 'Sprawdź skrzynkę - wysłaliśmy link do potwierdzenia przypomnień.',
+    pushBlocked: 'Powiadomienia są zablokowane dla tej strony. Zezwól na nie w ustawieniach przeglądarki albo wybierz e-mail.',
+    unavailable: 'Przypomnienia nie są jeszcze dostępne.',
+    failed: 'Przepraszamy, nie udało się. Spróbuj ponownie.',
+    binNames: {
+      black: 'czarny pojemnik (odpady zmieszane)',
+      blue: 'niebieski pojemnik (surowce wtórne)',
+      green: 'zielony pojemnik (odpady ogrodowe i kuchenne)'
+    },
+    binsTitle: 'Jutro wywóz śmieci',
+    binsBody: (bins, day) => `${day}: ${joinList(bins)}. Wystaw ${bins.length === 1 ? 'go' : 'je'} dziś wieczorem.`,
+    meetingTitle: committee => `Posiedzenie: ${committee}`,
+    meetingBody: (when, venue) => `${when}${venue ? `, ${venue}` : ''}. Mieszkańcy mogą wziąć udział.`,
+    announcementTitle: 'Ogłoszenie dla Northstowe',
+    digestSubject: 'Twoje przypomnienia z Northstowe',
+    digestIntro: 'Oto Twoje przypomnienia od AMA Northstowe.',
+    manageLink: url => `Zmień przypomnienia: ${url}`,
+    unsubscribeLink: url => `Wypisz się: ${url}`,
+    confirmSubject: 'Potwierdź przypomnienia z Northstowe',
+    confirmBody: url => `Ktoś, miejmy nadzieję że Ty, poprosił o przypomnienia z Northstowe na ten adres.\n\nPotwierdź je tutaj: ${url}\n\nJeśli to nie Ty, zignoruj tę wiadomość - nic więcej nie wyślemy.`,
+    manageSubject: 'Twoje przypomnienia z Northstowe',
+    manageBody: url => `Ten adres już dostaje przypomnienia z Northstowe. Aby je zmienić lub wyłączyć, wejdź na: ${url}`,
+    pageTitle: 'Twoje przypomnienia',
+    confirmed: 'Adres e-mail potwierdzony. Przypomnienia zaczną przychodzić od najbliższej wysyłki.',
+    unsubscribed: 'Wypisano Cię. Nie wyślemy więcej przypomnień.',
+    notFound: 'Ten link nie pasuje do żadnych przypomnień. Możliwe, że wypisano Cię już wcześniej.'
+  }
+};
@@ -0,0 +1,194 @@
+import type { Messages } from '@/lib/i18n/types';
+
+// 1 minut, 2-19 minute, 20+ de minute
+function plural(count: number, one: string, other: string): string {
+  if (count === 1) return `${count} ${one}`;
+  const lastTwo = count % 100;
+  return `${count} ${lastTwo === 0 || lastTwo >= 20 ? 'de ' : ''}${other}`;
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} și ${items[items.length - 1]}` : items.join('');
+}
+
+export const ro: Messages = {
+  languageName: 'Română',
+  englishName: 'Romanian',
+  pageTitle: 'AMA Northstowe - Asistentul local al comunității',
+  pageDescription: 'Puneți întrebări despre Northstowe - servicii locale, evenimente, transport și informații pentru comunitate.',
+  tagline: 'Asistentul local al comunității',
+  welcome: 'Bună ziua! Bine ați venit la AMA Northstowe 👋\n\nVă ajut cu întrebări despre comunitatea noastră. Puteți întreba despre servicii locale, evenimente, transport, construcții noi și orice altceva legat de viața în Northstowe.\n\nÎncercați, de exemplu, „Când se deschide cabinetul medical?” sau alegeți una dintre întrebările de mai jos!',
+  sampleQuestions: [
+    'Când se deschide cabinetul medical?',
+    'Când sunt următoarele ședințe ale consiliului local?',
+    'Unde este cel mai apropiat Tesco?',
+    'Când va fi gata școala secundară?',
+    'Ce autobuze merg spre Cambridge?',
+    'Există evenimente pentru comunitate luna aceasta?'
+  ],
+  tryAsking: 'Încercați să întrebați despre:',
+  inputPlaceholder: 'Întrebați orice despre Northstowe...',
+  sendMessage: 'Trimite mesajul',
+  stopGenerating: 'Oprește răspunsul',
+  showConversations: 'Arată conversațiile',
+  languageLabel: 'Limba',
+  thinking: 'Mă gândesc...',
+  stopped: 'Oprit',
+  savedAnswer: age => `Răspuns salvat ${age}`,
+  answerAge: minutes => {
+    if (minutes < 1) return 'chiar acum';
+    if (minutes < 60) return `acum ${plural(minutes, 'minut', 'minute')}`;
+    return `acum ${plural(Math.floor(minutes / 60), 'oră', 'ore')}`;
+  },
+  waitBeforeSending: seconds => `Așteptați ${plural(seconds, 'secundă', 'secunde')} înainte de a trimite alt mesaj.`,
+  countdown: seconds => {
+    if (seconds < 60) return plural(seconds, 'secundă', 'secunde');
+    const rest = seconds % 60;
+    return `${Math.floor(seconds / 60)}:${rest < 10 ? '0' : ''}${rest} minute`;
+  },
+  rateLimitCountdown: countdown => `Ați atins limita de întrebări. Puteți pune altă întrebare peste ${countdown}.`,
+  rateLimitWait: 'Ați atins limita de întrebări. Așteptați puțin.',
+  questionsLeft: (remaining, limit) => `${remaining} din ${limit} întrebări rămase`,
+  moreAvailableAt: time => ` - altele disponibile la ${time}`,
+  footer: 'Funcționează cu AI • Pentru locuitorii din Northstowe',
+  errors: {
+    METHOD_NOT_ALLOWED: 'Ne pare rău, ceva nu a funcționat. Încercați din nou.',
+    INVALID_REQUEST: 'Ne pare rău, ceva nu a funcționat. Încercați din nou.',
+    MESSAGE_REQUIRED: 'Scrieți mai întâi o întrebare.',
+    MESSAGE_TOO_LONG: 'Întrebarea este prea lungă. Scurtați-o și încercați din nou.',
+    HISTORY_TOO_LONG: 'Conversația a devenit prea lungă. Începeți una nouă.',
+    PAYLOAD_TOO_LARGE: 'Conversația a devenit prea lungă. Începeți una nouă.',
+    PROMPT_INJECTION: 'Răspund doar la întrebări despre Northstowe, așa că nu am trimis-o. Reformulați-o ca întrebare despre oraș.',
+    OFF_TOPIC: 'Îmi pare rău, răspund doar la întrebări legate de Northstowe. Întrebați-mă despre servicii locale, facilități, construcții sau informații pentru comunitatea din Northstowe.',
+    RATE_LIMITED: 'Prea multe întrebări. Așteptați puțin înainte de a pune alta.',
+    NOT_CONFIGURED: 'Asistentul nu este încă configurat. Încercați mai târziu.',
+    UPSTREAM_AUTH: 'Asistentul nu este configurat corect. Încercați mai târziu.',
+    UPSTREAM_RATE_LIMITED: 'Serviciul de răspunsuri este ocupat acum. Încercați din nou peste un minut.',
+    UPSTREAM_ERROR: 'Ne pare rău, ceva nu a funcționat. Încercați din nou.',
+    NO_ANSWER: 'Îmi pare rău, nu am găsit un răspuns. Încercați să reformulați întrebarea.',
+    INVALID_API_KEY: 'Accesul acestui site la asistent nu este configurat corect.',
+    ORIGIN_NOT_ALLOWED: 'Asistentul nu este activat pentru acest site.',
+    QUOTA_EXCEEDED: 'Acest site a folosit deja întrebările de azi. Încercați din nou mâine sau întrebați pe site-ul AMA Northstowe.'
+  },
+  apiErrors: {
+    METHOD_NOT_ALLOWED: 'Ne pare rău, ceva nu a funcționat. Încercați din nou.',
+    INVALID_REQUEST: 'Ne pare rău, ceva nu a funcționat. Încercați din nou.',
+    RATE_LIMITED: 'Prea multe încercări. Așteptați puțin și încercați din nou.',
+    ADDRESS_REQUIRED: 'Introduceți o stradă sau un cod poștal din Northstowe.',
+    ADDRESS_NOT_FOUND: 'Nu am găsit această stradă sau acest cod poștal în Northstowe.',
+    ANSWER_EXPIRED: 'Acest răspuns este prea vechi pentru a fi evaluat.',
+    SUBSCRIPTION_NOT_FOUND: 'Acest link nu corespunde niciunui abonament. Poate v-ați dezabonat deja.',
+    TOPICS_REQUIRED: 'Alegeți cel puțin un tip de memento.',
+    INVALID_EMAIL: 'Introduceți o adresă de e-mail validă.',
+    STREET_REQUIRED: 'Introduceți strada dvs. pentru mementourile despre gunoi.',
+    UNKNOWN_STREET: 'Această stradă nu este încă în lista noastră pentru Northstowe.',
+    CHANNEL_UNAVAILABLE: 'Acest tip de memento nu este disponibil momentan.',
+    TOO_MANY_BROWSERS: 'Prea multe browsere s-au abonat din această rețea.',
+    EMAIL_FAILED: 'Nu am putut trimite e-mailul de confirmare. Încercați din nou mai târziu.'
+  },
+  conversations: {
+    label: 'Conversații',
+    newConversation: 'Conversație nouă',
+    nameLabel: 'Numele conversației',
+    saveName: 'Salvează numele',
+    cancelRename: 'Anulează redenumirea',
+    exportMarkdown: 'Exportă ca Markdown',
+    exportJson: 'Exportă ca JSON',
+    rename: 'Redenumește',
+    renameLabel: 'Redenumește conversația',
+    delete: 'Șterge',
+    deleteLabel: 'Șterge conversația',
+    confirmDelete: title => `Ștergeți „${title}”? Acțiunea nu poate fi anulată.`
+  },
+  feedback: {
+    helpful: 'Răspuns util',
+    unhelpful: 'Răspuns inutil',
+    thanks: 'Mulțumim pentru părere',
+    failed: 'Ne pare rău, nu s-a putut salva',
+    whatWasWrong: 'Ce a fost greșit? (opțional)',
+    send: 'Trimite',
+    skip: 'Sari peste'
+  },
+  sources: {
+    count: count => plural(count, 'sursă', 'surse'),
+    notOfficial: count => `${count} din afara site-urilor oficiale ale consiliilor`,
+    unofficial: 'neoficială',
+    unofficialTitle: 'Această sursă nu face parte din site-urile oficiale ale consiliilor în care căutăm'
+  },
+  reasoning: {
+    show: 'Arată raționamentul',
+    thinking: 'Mă gândesc... arată raționamentul'
+  },
+  location: {
+    set: 'Setează locația',
+    near: street => `Lângă ${street}`,
+    usingYours: 'Folosim locația dvs.',
+    explanation: 'Folosită pentru întrebări precum „unde este cea mai apropiată farmacie?”. Este păstrată în acest browser și trimisă cu întrebările dvs.',
+    useMine: 'Folosește locația mea',
+    finding: 'Se caută locația...',
+    unavailable: 'Locația dvs. nu este disponibilă. Alegeți în schimb strada.',
+    myStreet: 'Strada mea',
+    save: 'Salvează',
+    unknownStreet: 'Această stradă nu este încă în lista noastră pentru Northstowe.',
+    stop: 'Nu-mi mai folosi locația'
+  },
+  announcementsLabel: 'Anunțuri',
+  binAnswer: {
+    round: (street, day) => `**${street}**: ziua de colectare este ${day}. Următoarele colectări:`,
+    bin: 'Pubelă',
+    nextCollection: 'Următoarea colectare',
+    moved: date => `mutată de pe ${date} din cauza sărbătorii legale`,
+    notice: 'Anunț',
+    putOut: 'Scoateți pubelele până la ora 6:00 în ziua colectării. Puteți verifica datele pe [pagina de colectare a deșeurilor a South Cambridgeshire District Council](https://www.scambs.gov.uk/bins-and-recycling).'
+  },
+  widget: {
+    title: 'Întrebați despre Northstowe',
+    intro: 'Puneți o întrebare despre Northstowe: gunoi, școli, transport, evenimente și altele.',
+    poweredBy: 'Răspunsuri de la AMA Northstowe',
+    notSetUp: 'Acest widget nu este configurat corect.'
+  },
+  notifications: {
+    label: 'Mementouri',
+    intro: 'Primiți un memento în seara dinaintea colectării gunoiului, înaintea ședințelor consiliului și când apare un anunț nou.',
+    topics: {
+      bins: 'Colectarea gunoiului',
+      meetings: 'Ședințele consiliului',
+      announcements: 'Anunțuri'
+    },
+    street: 'Strada dvs. (pentru colectarea gunoiului)',
+    push: 'Notificări în acest browser',
+    email: 'Rezumat prin e-mail',
+    emailAddress: 'Adresa de e-mail',
+    subscribe: 'Activează mementourile',
+    save: 'Salvează modificările',
+    saved: 'Mementourile dvs. au fost actualizate.',
+    unsubscribe: 'Dezactivează mementourile',
+    subscribed: 'Mementourile sunt active în acest browser.',
+    checkEmail: 'Verificați e-mailul pentru linkul de confirmare a mementourilor.',
+    pushBlocked: 'Notificările sunt blocate pentru acest site. Permiteți-le din setările browserului sau folosiți e-mailul.',
+    unavailable: 'Mementourile nu sunt încă disponibile.',
+    failed: 'Ne pare rău, nu a funcționat. Încercați din nou.',
+    binNames: {
+      black: 'pubela neagră (deșeuri menajere)',
+      blue: 'pubela albastră (reciclabile)',
+      green: 'pubela verde (deșeuri din grădină și alimentare)'
+    },
+    binsTitle: 'Mâine se colectează gunoiul',
+    binsBody: (bins, day) => `${day}: ${joinList(bins)}. Scoateți-${bins.length === 1 ? 'o' : 'le'} în seara aceasta.`,
+    meetingTitle: committee => `Ședință: ${committee}`,
+    meetingBody: (when, venue) => `${when}${venue ? `, ${venue}` : ''}. Locuitorii sunt bineveniți.`,
+    announcementTitle: 'Anunț pentru Northstowe',
+    digestSubject: 'Mementourile dvs. din Northstowe',
+    digestIntro: 'Iată mementourile dvs. de la AMA Northstowe.',
+    manageLink: url => `Modificați mementourile: ${url}`,
+    unsubscribeLink: url => `Dezabonare: ${url}`,
+    confirmSubject: 'Confirmați mementourile din Northstowe',
+    confirmBody: url => `Cineva, sperăm că dvs., a cerut mementouri din Northstowe la această adresă.\n\nLe puteți confirma aici: ${url}\n\nDacă nu ați fost dvs., ignorați acest e-mail și nu vom mai trimite nimic.`,
+    manageSubject: 'Mementourile dvs. din Northstowe',
+    manageBody: url => `Această adresă primește deja mementouri din Northstowe. Pentru a le modifica sau opri, accesați: ${url}`,
+    pageTitle: 'Mementourile dvs.',
+    confirmed: 'Adresa de e-mail este confirmată. Mementourile încep de la următoarea trimitere.',
+    unsubscribed: 'V-ați dezabonat și nu vă vom mai trimite mementouri.',
+    notFound: 'Acest link nu corespunde niciunui abonament. Poate v-ați dezabonat deja.'
+  }
+};
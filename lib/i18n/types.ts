@@ -0,0 +1,140 @@
+import type { ApiErrorCode } from '@/lib/apiErrors';
+import type { ChatErrorCode } from '@/lib/chatRequest';
+import type { BinColour } from '@/lib/bins';
+import type { NotificationTopic } from '@/lib/subscriptions';
+
+export type Locale = 'en' | 'pl' | 'ro';
+
+// One catalogue per locale. Strings that need a number or name are functions,
+// so each language can handle its own plurals and word order.
+export interface Messages {
+  languageName: string; // in the language itself, for the picker
+  englishName: string; // for the model's instructions
+  pageTitle: string;
+  pageDescription: string;
+  tagline: string;
+  welcome: string;
+  sampleQuestions: string[];
+  tryAsking: string;
+  inputPlaceholder: string;
+  sendMessage: string;
+  stopGenerating: string;
+  showConversations: string;
+  languageLabel: string;
+  thinking: string;
+  stopped: string;
+  savedAnswer: (age: string) => string;
+  answerAge: (minutes: number) => string;
+  waitBeforeSending: (seconds: number) => string;
+  countdown: (seconds: number) => string;
+  rateLimitCountdown: (countdown: string) => string;
+  rateLimitWait: string;
+  questionsLeft: (remaining: number, limit: number) => string;
+  moreAvailableAt: (time: string) => string;
+  footer: string;
+  errors: Record<ChatErrorCode, string>;
+  // Errors from /api/bins, /api/feedback and /api/subscriptions
+  apiErrors: Record<ApiErrorCode, string>;
+  conversations: {
+    label: string;
+    newConversation: string;
+    nameLabel: string;
+    saveName: string;
+    cancelRename: string;
+    exportMarkdown: string;
+    exportJson: string;
+    rename: string;
+    renameLabel: string;
+    delete: string;
+    deleteLabel: string;
+    confirmDelete: (title: string) => string;
+  };
+  feedback: {
+    helpful: string;
+    unhelpful: string;
+    thanks: string;
+    failed: string;
+    whatWasWrong: string;
+    send: string;
+    skip: string;
+  };
+  sources: {
+    count: (count: number) => string;
+    notOfficial: (count: number) => string;
+    unofficial: string;
+    unofficialTitle: string;
+  };
+  reasoning: {
+    show: string;
+    thinking: string;
+  };
+  location: {
+    set: string;
+    near: (street: string) => string;
+    usingYours: string;
+    explanation: string;
+    useMine: string;
+    finding: string;
+    unavailable: string;
+    myStreet: string;
+    save: string;
+    unknownStreet: string;
+    stop: string;
+  };
+  announcementsLabel: string;
+  // The chat's answer to bin questions from the round calendar; bin names
+  // come from notifications.binNames
+  binAnswer: {
+    round: (street: string, day: string) => string;
+    bin: string;
+    nextCollection: string;
+    moved: (date: string) => string;
+    notice: string;
+    putOut: string;
+  };
+  // The embeddable widget; the page it runs in belongs to a community site
+  widget: {
+    title: string;
+    intro: string;
+    poweredBy: string;
+    notSetUp: string;
+  };
+  notifications: {
+    label: string;
+    intro: string;
+    topics: Record<NotificationTopic, string>;
+    street: string;
+    push: string;
+    email: string;
+    emailAddress: string;
+    subscribe: string;
+    save: string;
+    saved: string;
+    unsubscribe: string;
+    subscribed: string;
+    checkEmail: string;
+    pushBlocked: string;
+    unavailable: string;
+    failed: string;
+    // The reminders themselves, in the subscriber's language
+    binNames: Record<BinColour, string>;
+    binsTitle: string;
+    binsBody: (bins: string[], day: string) => string;
+    meetingTitle: (committee: string) => string;
+    meetingBody: (when: string, venue?: string) => string;
+    announcementTitle: string;
+    digestSubject: string;
+    digestIntro: string;
+    manageLink: (url: string) => string;
+    unsubscribeLink: (url: string) => string;
+    confirmSubject: string;
+    confirmBody: (url: string) => string;
+    manageSubject: string;
+    manageBody: (url: string) => string;
+    // The page linked from emails
+    pageTitle: string;
+    confirmed: string;
+    unsubscribed: string;
+    notFound: string;
+  };
+}
@@ -0,0 +1,150 @@
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: string; // raw DTSTART value, e.g. 20251024 or 20251024T190000Z
+  end?: string;
+  properties: Record<string, string>;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+}
+
+// Parses the VEVENTs of an iCalendar file. Only what we import is supported:
+// folded lines, property parameters are dropped, values are unescaped.
+export function parseIcsEvents(source: string): IcsEvent[] {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '') // unfold continuation lines
+    .split('\n');
+
+  const events: IcsEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      if (current && current.DTSTART) {
+        events.push({
+          uid: current.UID,
+          summary: current.SUMMARY || '',
+          description: current.DESCRIPTION,
+          location: current.LOCATION,
+          start: current.DTSTART,
+          end: current.DTEND,
+          properties: current
+        });
+      }
+      current = null;
+      return;
+    }
+    if (!current) {
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      const name = line.slice(0, separator).split(';')[0].toUpperCase();
+      current[name] = unescapeText(line.slice(separator + 1));
+    }
+  });
+
+  return events;
+}
+
+// "20251024" or "20251024T190000Z" -> "2025-10-24"
+export function icsDateToIso(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+export interface IcsOutputEvent {
+  uid: string;
+  start: number; // epoch ms
+  end: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets must be folded (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 73) {
+    parts.push(rest.slice(0, 73));
+    rest = rest.slice(73);
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+}
+
+export function formatIcsDateTime(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function lastSundayOf(year: number, month: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  return lastDay.getUTCDate() - lastDay.getUTCDay();
+}
+
+// Converts a UK wall-clock time to epoch ms. British Summer Time runs from
+// 01:00 UTC on the last Sunday in March to 01:00 UTC on the last Sunday in October.
+export function ukLocalToUtc(date: string, time: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const bstStart = Date.UTC(year, 2, lastSundayOf(year, 2), 1);
+  const bstEnd = Date.UTC(year, 9, lastSundayOf(year, 9), 1);
+  const inBst = asUtc - 60 * 60 * 1000 >= bstStart && asUtc - 60 * 60 * 1000 < bstEnd;
+
+  return inBst ? asUtc - 60 * 60 * 1000 : asUtc;
+}
+
+export function buildIcsCalendar(name: string, events: IcsOutputEvent[]): string {
+  const stamp = formatIcsDateTime(Date.now());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AMA Northstowe//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Europe/London'
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
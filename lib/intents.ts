@@ -0,0 +1,175 @@
+export type SearchRecency = 'day' | 'week' | 'month' | 'year';
+
+export interface QueryIntent {
+  id: string;
+  // Matches when the query contains any keyword as a whole word (plurals
+  // included) or matches any pattern, which covers word stems.
+  // An intent with neither is the catch-all and must come last.
+  keywords?: string[];
+  patterns?: RegExp[];
+  // {query} plus any of the date variables from buildDateVariables
+  queryTemplate: string;
+  searchDomains: string[];
+  recency: SearchRecency;
+  prompt: string;
+  // How long a web-searched answer may be reused for the same question
+  cacheTtlSeconds: number;
+}
+
+export interface QueryRoute {
+  intent: QueryIntent;
+  enhancedQuery: string;
+  searchDomains: string[];
+  recency: SearchRecency;
+  promptFragment: string;
+}
+
+const COUNCIL_DOMAINS = ['northstowetowncouncil.gov.uk', 'cambridge.gov.uk', 'scambs.gov.uk', 'cambridgeshire.gov.uk'];
+
+// A word starting with `prefix`, for inflected Polish and Romanian words such
+// as "posiedzenia" or "ședinței". Built from a string because the es5 target
+// rejects the u flag on regex literals, and \b only knows a-z.
+function wordStart(prefix: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${prefix}`, 'iu');
+}
+
+// First match wins, so more specific intents go first
+export const QUERY_INTENTS: QueryIntent[] = [
+  {
+    id: 'meetings',
+    keywords: ['meeting', 'council', 'agenda'],
+    patterns: [
+      wordStart('posiedze'), wordStart('zebrani'), wordStart('sesj'), wordStart('rad(a|y|zie|ę|ą) (miast|miejsk|gmin)'), // pl
+      wordStart('[șşs]edin[țţt]'), wordStart('consili'), wordStart('ordinea de zi') // ro
+    ],
+    queryTemplate: '{query} site:northstowetowncouncil.gov.uk Northstowe Town Council meetings agendas and minutes {monthName} {year} upcoming meeting after {today}',
+    searchDomains: ['northstowetowncouncil.gov.uk', 'scambs.gov.uk'],
+    recency: 'month',
+    prompt: 'For meeting questions: Focus on the official Northstowe Town Council Meetings, Agendas & Minutes page (northstowetowncouncil.gov.uk/Meetings_Agendas__and__Minutes_38186.aspx). Only report meetings on or after {todayLong} as upcoming, and give the date, time and venue as listed there.',
+    cacheTtlSeconds: 60 * 60 // dates change as agendas are published
+  },
+  {
+    id: 'bins',
+    keywords: ['bin', 'collection', 'waste', 'rubbish'],
+    patterns: [
+      /\brecycl/i,
+      wordStart('śmie(ci|ć|t)'), wordStart('odpad'), wordStart('pojemnik'), wordStart('kosz(e|a|y)?(?![\\p{L}])'), wordStart('wyw[oó]z'), wordStart('recykl'), // pl
+      wordStart('gunoi'), wordStart('pubel'), wordStart('de[șşs]eu'), wordStart('colect(ar|ea)'), wordStart('recicl') // ro
+    ],
+    queryTemplate: '{query} Northstowe bin collection schedule week of {weekStart} next collection {nextFriday}',
+    searchDomains: ['scambs.gov.uk', 'northstowetowncouncil.gov.uk'],
+    recency: 'week',
+    prompt: 'For bin collection questions: Use the South Cambridgeshire District Council collection calendar. Say which bin (black, blue or green) goes out on which date, and mention bank holiday changes if the date falls near one.',
+    cacheTtlSeconds: 60 * 60 // collection weeks roll over
+  },
+  {
+    id: 'transport',
+    keywords: ['bus', 'transport', 'travel', 'busway', 'cycle'],
+    patterns: [
+      wordStart('autobus'), wordStart('transport'), wordStart('dojazd'), wordStart('rower'), // pl
+      wordStart('autobuz'), wordStart('bicicl') // ro
+    ],
+    queryTemplate: '{query} Northstowe bus transport timetable route {monthName} {year}',
+    searchDomains: ['cambridgeshire.gov.uk', 'stagecoachbus.com', 'scambs.gov.uk', 'northstowetowncouncil.gov.uk'],
+    recency: 'month',
+    prompt: 'For transport questions: Give route numbers, stop names and typical frequencies, and point to the current timetable.',
+    cacheTtlSeconds: 6 * 60 * 60
+  },
+  {
+    id: 'facilities',
+    keywords: ['open', 'opening', 'centre', 'center', 'facility', 'facilities'],
+    patterns: [
+      wordStart('otwar'), wordStart('czynn(y|e|a)(?![\\p{L}])'), wordStart('centrum'), // pl
+      wordStart('deschi'), wordStart('centrul') // ro
+    ],
+    queryTemplate: '{query} Northstowe opening times construction timeline {year}',
+    searchDomains: COUNCIL_DOMAINS,
+    recency: 'year',
+    prompt: 'For facility questions: Distinguish between facilities that are open now and ones still planned, and give the most recent published opening date.',
+    cacheTtlSeconds: 24 * 60 * 60 // opening timelines move slowly
+  },
+  {
+    id: 'general',
+    queryTemplate: '{query} in Northstowe, Cambridgeshire, UK. Find specific current information, dates, times, schedules, contact details.',
+    searchDomains: COUNCIL_DOMAINS,
+    recency: 'month',
+    prompt: '',
+    cacheTtlSeconds: 6 * 60 * 60
+  }
+];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+function formatLongDate(date: Date): string {
+  return `${DAY_NAMES[date.getUTCDay()]} ${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+// Today's date in Northstowe as midnight UTC, so the getUTC* methods give the
+// UK day, month and weekday whatever the server's time zone (the same day
+// ukToday() in lib/bins.ts and the system prompt use)
+function ukDate(now: Date): Date {
+  return new Date(`${now.toLocaleDateString('en-CA', { timeZone: 'Europe/London' })}T00:00:00Z`);
+}
+
+// Variables available to query templates and prompt fragments, computed per request
+export function buildDateVariables(now: Date): Record<string, string> {
+  const today = ukDate(now);
+  const daysUntilFriday = (5 - today.getUTCDay() + 7) % 7;
+  const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+
+  return {
+    today: `${pad(today.getUTCDate())}/${pad(today.getUTCMonth() + 1)}/${today.getUTCFullYear()}`,
+    todayLong: formatLongDate(today),
+    weekday: DAY_NAMES[today.getUTCDay()],
+    monthName: MONTH_NAMES[today.getUTCMonth()],
+    year: String(today.getUTCFullYear()),
+    weekStart: formatLongDate(addDays(today, -daysSinceMonday)),
+    tomorrow: formatLongDate(addDays(today, 1)),
+    nextFriday: formatLongDate(addDays(today, daysUntilFriday))
+  };
+}
+
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    variables.hasOwnProperty(name) ? variables[name] : placeholder
+  );
+}
+
+// "bin" matches "bin" and "bins" but not "cabin" or "cabinet"
+function containsKeyword(lowerQuery: string, keyword: string): boolean {
+  return new RegExp(`\\b${keyword}(e?s)?\\b`).test(lowerQuery);
+}
+
+export function matchIntent(query: string): QueryIntent {
+  const lowerQuery = query.toLowerCase();
+
+  return QUERY_INTENTS.find(intent => {
+    if (!intent.keywords && !intent.patterns) {
+      return true;
+    }
+    return (intent.keywords || []).some(keyword => containsKeyword(lowerQuery, keyword)) ||
+      (intent.patterns || []).some(pattern => pattern.test(query));
+  }) || QUERY_INTENTS[QUERY_INTENTS.length - 1];
+}
+
+export function routeQuery(query: string, now: Date = new Date()): QueryRoute {
+  const intent = matchIntent(query);
+  const variables = { ...buildDateVariables(now), query };
+
+  return {
+    intent,
+    enhancedQuery: renderTemplate(intent.queryTemplate, variables),
+    searchDomains: intent.searchDomains,
+    recency: intent.recency,
+    promptFragment: renderTemplate(intent.prompt, variables)
+  };
+}
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '@/lib/logger';
+
+export interface JsonFileStore<T> {
+  // Loaded from disk on first use; mutate it and call save()
+  get(): T;
+  save(): void;
+}
+
+const FILE_WRITE_DELAY = 1000;
+
+// Small moderator-edited data kept as one JSON file under .data/. Writes are
+// batched; multiple instances would need a shared store instead.
+export function createJsonFileStore<T>(name: string, getPath: () => string, empty: () => T): JsonFileStore<T> {
+  let data: T | null = null;
+  let writeTimer: NodeJS.Timeout | null = null;
+
+  const get = (): T => {
+    if (!data) {
+      data = empty();
+      try {
+        data = { ...data, ...JSON.parse(fs.readFileSync(getPath(), 'utf8')) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.error('json_store_load_failed', { store: name, error });
+        }
+      }
+    }
+    return data as T;
+  };
+
+  const save = (): void => {
+    if (writeTimer) {
+      return;
+    }
+
+    writeTimer = setTimeout(() => {
+      writeTimer = null;
+
+      // Write to a temp file and rename so a crash never leaves half a file
+      const filePath = getPath();
+      const tempPath = `${filePath}.tmp`;
+      fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        .then(() => fs.promises.writeFile(tempPath, JSON.stringify(get(), null, 2)))
+        .then(() => fs.promises.rename(tempPath, filePath))
+        .catch(error => logger.error('json_store_save_failed', { store: name, error }));
+    }, FILE_WRITE_DELAY);
+  };
+
+  return { get, save };
+}
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '@/lib/logger';
+
+export interface KnowledgePassage {
+  id: string;
+  docId: string;
+  title: string;
+  heading: string;
+  text: string;
+  url?: string;
+  updated?: string;
+  tags: string[];
+  direct: boolean; // may be returned as the whole answer (front matter `direct: false` opts out)
+}
+
+export interface KnowledgeMatch {
+  passage: KnowledgePassage;
+  score: number;
+  coverage: number; // share of the query's terms found in the passage
+}
+
+interface IndexedPassage {
+  passage: KnowledgePassage;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+interface KnowledgeIndex {
+  passages: IndexedPassage[];
+  docFreq: Map<string, number>;
+  averageLength: number;
+}
+
+const KNOWLEDGE_DIR = path.join(process.cwd(), 'data', 'knowledge');
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// A passage must score this much to be injected into the prompt...
+export const KB_MIN_SCORE = 2;
+// ...and this much, covering most of the question's terms, to be used as the answer
+export const KB_DIRECT_SCORE = 6;
+export const KB_DIRECT_COVERAGE = 0.8;
+
+const STOPWORDS = [
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has',
+  'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that',
+  'the', 'their', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'you', 'your', 'northstowe', 'tell', 'about', 'please', 'any', 'know'
+];
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(token => STOPWORDS.indexOf(token) === -1)
+    // Crude plural folding so "bins" finds "bin"
+    .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+// Minimal front matter: a leading block of "key: value" lines between --- fences
+function parseFrontMatter(source: string): { meta: Record<string, string>; body: string } {
+  const match = source.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) {
+    return { meta: {}, body: source };
+  }
+
+  const meta: Record<string, string> = {};
+  match[1].split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  });
+  return { meta, body: source.slice(match[0].length) };
+}
+
+// Each "## " section of a document becomes one passage
+export function parseKnowledgeDocument(docId: string, source: string): KnowledgePassage[] {
+  const { meta, body } = parseFrontMatter(source.replace(/\r\n?/g, '\n'));
+  const title = meta.title || docId;
+  const tags = (meta.tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const passages: KnowledgePassage[] = [];
+  let heading = title;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      passages.push({
+        id: `${docId}#${passages.length + 1}`,
+        docId,
+        title,
+        heading,
+        text,
+        url: meta.url,
+        updated: meta.updated,
+        tags,
+        direct: meta.direct !== 'false'
+      });
+    }
+    lines = [];
+  };
+
+  body.split('\n').forEach(line => {
+    const sectionHeading = line.match(/^##\s+(.*)$/);
+    if (sectionHeading) {
+      flush();
+      heading = sectionHeading[1].trim();
+    } else if (!/^#\s/.test(line)) {
+      lines.push(line);
+    }
+  });
+  flush();
+
+  return passages;
+}
+
+export function buildKnowledgeIndex(passages: KnowledgePassage[]): KnowledgeIndex {
+  const docFreq = new Map<string, number>();
+  const indexed = passages.map(passage => {
+    const tokens = tokenize(`${passage.title} ${passage.heading} ${passage.tags.join(' ')} ${passage.text}`);
+    const termFreq = new Map<string, number>();
+    tokens.forEach(token => termFreq.set(token, (termFreq.get(token) || 0) + 1));
+    termFreq.forEach((_, token) => docFreq.set(token, (docFreq.get(token) || 0) + 1));
+    return { passage, termFreq, length: tokens.length };
+  });
+
+  const totalLength = indexed.reduce((sum, entry) => sum + entry.length, 0);
+  return {
+    passages: indexed,
+    docFreq,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0
+  };
+}
+
+let knowledgeIndex: KnowledgeIndex | null = null;
+
+export function loadKnowledgePassages(dir: string = KNOWLEDGE_DIR): KnowledgePassage[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith('.md') && file.toLowerCase() !== 'readme.md');
+  } catch (error) {
+    logger.error('knowledge_base_load_failed', { dir, error });
+    return [];
+  }
+
+  return files.sort().reduce<KnowledgePassage[]>((all, file) => {
+    const source = fs.readFileSync(path.join(dir, file), 'utf8');
+    return all.concat(parseKnowledgeDocument(file.replace(/\.md$/, ''), source));
+  }, []);
+}
+
+function getKnowledgeIndex(): KnowledgeIndex {
+  if (!knowledgeIndex) {
+    knowledgeIndex = buildKnowledgeIndex(loadKnowledgePassages());
+  }
+  return knowledgeIndex;
+}
+
+export function searchKnowledge(
+  query: string,
+  limit: number = 3,
+  index: KnowledgeIndex = getKnowledgeIndex()
+): KnowledgeMatch[] {
+  const queryTerms = tokenize(query).filter((term, i, all) => all.indexOf(term) === i);
+  if (queryTerms.length === 0 || index.passages.length === 0) {
+    return [];
+  }
+
+  const total = index.passages.length;
+
+  return index.passages
+    .map(entry => {
+      let score = 0;
+      let matchedTerms = 0;
+
+      queryTerms.forEach(term => {
+        const tf = entry.termFreq.get(term) || 0;
+        if (tf === 0) return;
+
+        matchedTerms++;
+        const df = index.docFreq.get(term) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * entry.length / index.averageLength));
+      });
+
+      return { passage: entry.passage, score, coverage: matchedTerms / queryTerms.length };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export function isDirectAnswer(match: KnowledgeMatch | undefined): match is KnowledgeMatch {
+  return !!match && match.passage.direct && match.score >= KB_DIRECT_SCORE && match.coverage >= KB_DIRECT_COVERAGE;
+}
+
+export function formatKnowledgeForPrompt(matches: KnowledgeMatch[]): string {
+  return matches
+    .map(match => {
+      const { passage } = match;
+      const checked = passage.updated ? ` (checked ${passage.updated})` : '';
+      return `[Local guide: ${passage.title} - ${passage.heading}${checked}]\n${passage.text}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,223 @@
+import { createOpenAiCompatibleProvider } from '@/lib/llm/openaiCompatible';
+import { mockProvider } from '@/lib/llm/mock';
+import { createReplayProvider } from '@/lib/llm/replay';
+import { recordLlmCall } from '@/lib/llm/stats';
+import { estimateCostUsd } from '@/lib/llm/pricing';
+import { LlmError, LlmProvider, LlmRequest, LlmResult, LlmStreamHandlers, LlmUsage } from '@/lib/llm/types';
+import { estimateTokens } from '@/lib/conversation';
+import { logger } from '@/lib/logger';
+import { llmCost, llmDuration, llmTokens } from '@/lib/metrics';
+
+export type { LlmProvider, LlmRequest, LlmResult, LlmStreamHandlers, LlmUsage } from '@/lib/llm/types';
+export { LlmError } from '@/lib/llm/types';
+
+export interface LlmTarget {
+  provider: LlmProvider;
+  model: string;
+}
+
+const PROVIDERS: Record<string, LlmProvider> = {
+  perplexity: createOpenAiCompatibleProvider({
+    name: 'perplexity',
+    baseUrl: () => 'https://api.perplexity.ai',
+    apiKey: () => process.env.PERPLEXITY_API_KEY,
+    extraBody: request => ({
+      return_citations: true,
+      search_recency_filter: request.recency,
+      search_domain_filter: request.searchDomains
+    })
+  }),
+  openai: createOpenAiCompatibleProvider({
+    name: 'openai',
+    baseUrl: () => process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: () => process.env.OPENAI_API_KEY
+  }),
+  mock: mockProvider,
+  replay: createReplayProvider(name => PROVIDERS[name])
+};
+
+// Tried in order. Override with LLM_CHAIN="<provider>:<model>,...",
+// e.g. "perplexity:sonar-reasoning,openai:gpt-4o-mini", "mock:default" or
+// "replay:perplexity:sonar" (see lib/llm/replay.ts).
+export const DEFAULT_LLM_CHAIN = 'perplexity:sonar-reasoning,perplexity:sonar';
+
+const DEFAULT_RETRIES = 1;
+const RETRY_BASE_DELAY_MS = 500;
+
+export function getLlmProvider(name: string): LlmProvider | undefined {
+  return PROVIDERS[name];
+}
+
+export function parseLlmChain(value: string): LlmTarget[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .reduce<LlmTarget[]>((targets, entry) => {
+      const separator = entry.indexOf(':');
+      const provider = separator > 0 ? PROVIDERS[entry.slice(0, separator)] : undefined;
+      const model = entry.slice(separator + 1).trim();
+      if (!provider || !model) {
+        logger.warn('llm_chain_entry_invalid', { entry });
+        return targets;
+      }
+      return targets.concat({ provider, model });
+    }, []);
+}
+
+// Targets whose provider has no API key are left out
+export function getLlmChain(value: string = process.env.LLM_CHAIN || DEFAULT_LLM_CHAIN): LlmTarget[] {
+  return parseLlmChain(value).filter(target => target.provider.isConfigured());
+}
+
+function getRetryCount(): number {
+  const retries = Number(process.env.LLM_RETRIES);
+  return retries >= 0 ? Math.min(Math.floor(retries), 5) : DEFAULT_RETRIES;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // The listener goes once the wait is over, so retries don't pile them up on the signal
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// Providers that don't report usage (e.g. OpenAI when streaming) are estimated
+// from the text, which is close enough for cost tracking
+function getUsage(request: LlmRequest, result: LlmResult): LlmUsage {
+  return result.usage || {
+    promptTokens: request.messages.reduce((total, message) => total + estimateTokens(message.content), 0),
+    completionTokens: estimateTokens(result.content)
+  };
+}
+
+function recordSuccess(request: LlmRequest, target: LlmTarget, result: LlmResult, started: number): void {
+  const latencyMs = Date.now() - started;
+  const labels = { provider: target.provider.name, model: target.model };
+  const usage = getUsage(request, result);
+  const costUsd = estimateCostUsd(target.provider.name, target.model, usage);
+
+  recordLlmCall({ ...labels, ok: true, latencyMs, at: started });
+  llmDuration.observe({ ...labels, outcome: 'ok' }, latencyMs / 1000);
+  llmTokens.inc({ ...labels, type: 'prompt' }, usage.promptTokens);
+  llmTokens.inc({ ...labels, type: 'completion' }, usage.completionTokens);
+  if (costUsd !== null) {
+    llmCost.inc(labels, costUsd);
+  }
+
+  logger.info('llm_call', {
+    requestId: request.requestId,
+    ...labels,
+    latencyMs,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    usageEstimated: !result.usage || undefined,
+    costUsd: costUsd === null ? undefined : costUsd
+  });
+}
+
+// Retryable failures are retried on the same target with exponential backoff,
+// then every failure moves on to the next target. `canFallback` is false once
+// a stream has sent text, since the answer can't be restarted elsewhere.
+async function runWithFallback(
+  targets: LlmTarget[],
+  request: LlmRequest,
+  attempt: (target: LlmTarget) => Promise<LlmResult>,
+  signal?: AbortSignal,
+  canFallback: () => boolean = () => true
+): Promise<LlmResult> {
+  if (targets.length === 0) {
+    throw new LlmError('No LLM provider is configured');
+  }
+
+  const retries = getRetryCount();
+  let lastError: LlmError | undefined;
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    for (let retry = 0; retry <= retries; retry++) {
+      const started = Date.now();
+      try {
+        const result = await attempt(target);
+        recordSuccess(request, target, result, started);
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+
+        lastError = error instanceof LlmError ? error : new LlmError(String(error));
+        const latencyMs = Date.now() - started;
+        recordLlmCall({
+          provider: target.provider.name,
+          model: target.model,
+          ok: false,
+          status: lastError.status,
+          error: lastError.message,
+          latencyMs,
+          at: started
+        });
+        llmDuration.observe({ provider: target.provider.name, model: target.model, outcome: 'error' }, latencyMs / 1000);
+        logger.warn('llm_call_failed', {
+          requestId: request.requestId,
+          provider: target.provider.name,
+          model: target.model,
+          attempt: retry + 1,
+          latencyMs,
+          status: lastError.status,
+          retryable: lastError.retryable,
+          error: lastError.message
+        });
+
+        if (!canFallback()) {
+          throw lastError;
+        }
+        if (!lastError.retryable || retry === retries) {
+          break;
+        }
+        await wait(RETRY_BASE_DELAY_MS * Math.pow(2, retry), signal);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+export function completeChat(
+  request: LlmRequest,
+  signal?: AbortSignal,
+  targets: LlmTarget[] = getLlmChain()
+): Promise<LlmResult> {
+  return runWithFallback(targets, request, target => target.provider.complete(request, target.model, signal), signal);
+}
+
+export function streamChat(
+  request: LlmRequest,
+  handlers: LlmStreamHandlers,
+  signal?: AbortSignal,
+  targets: LlmTarget[] = getLlmChain()
+): Promise<LlmResult> {
+  let started = false;
+  const trackedHandlers: LlmStreamHandlers = {
+    onDelta: content => {
+      started = true;
+      handlers.onDelta(content);
+    }
+  };
+
+  return runWithFallback(
+    targets,
+    request,
+    target => target.provider.stream(request, target.model, trackedHandlers, signal),
+    signal,
+    () => !started
+  );
+}
@@ -0,0 +1,89 @@
+import { LlmError, LlmProvider, LlmRequest, LlmResult, LlmStreamHandlers } from '@/lib/llm/types';
+
+// Offline stand-in for development and tests: LLM_CHAIN=mock:default. The same
+// request always gets the same answer, with a <think> block and a citation per
+// search domain so reasoning and sources render as they would for real.
+// Models named "error-<status>" (e.g. mock:error-503) fail with that status to
+// exercise retries and fallback.
+
+function getDelayMs(): number {
+  const delay = Number(process.env.MOCK_LLM_DELAY_MS);
+  return delay >= 0 ? delay : 20;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LlmError('mock request aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LlmError('mock request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+function buildMockResult(request: LlmRequest, model: string): LlmResult {
+  const errorStatus = model.match(/^error-(\d{3})$/);
+  if (errorStatus) {
+    const status = Number(errorStatus[1]);
+    throw new LlmError(`mock returned ${status}`, status, status === 429 || status >= 500);
+  }
+
+  const question = request.messages.filter(message => message.role === 'user').pop()?.content || '';
+  const domains = request.searchDomains || [];
+
+  const content = [
+    `<think>Mock reasoning: looking up "${question}" on ${domains.length > 0 ? domains.join(', ') : 'no particular site'}.</think>`,
+    `This is a mock answer from the offline \`${model}\` model, so nothing here is real Northstowe information.`,
+    '',
+    `- **Question:** ${question}`,
+    domains.length > 0
+      ? `- **Where a real answer would come from:** ${domains[0]} [1]`
+      : '- **Sources:** none searched'
+  ].join('\n');
+
+  return {
+    content,
+    citations: domains.map(domain => `https://${domain}/`),
+    provider: 'mock',
+    model
+  };
+}
+
+export const mockProvider: LlmProvider = {
+  name: 'mock',
+
+  isConfigured: () => true,
+
+  ping: async () => undefined,
+
+  async complete(request: LlmRequest, model: string, signal?: AbortSignal): Promise<LlmResult> {
+    await wait(getDelayMs(), signal);
+    return buildMockResult(request, model);
+  },
+
+  async stream(
+    request: LlmRequest,
+    model: string,
+    handlers: LlmStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<LlmResult> {
+    const result = buildMockResult(request, model);
+
+    // A few words at a time, like a real token stream
+    const pieces = result.content.match(/\S+\s*|\s+/g) || [];
+    for (let i = 0; i < pieces.length; i += 3) {
+      await wait(getDelayMs(), signal);
+      handlers.onDelta(pieces.slice(i, i + 3).join(''));
+    }
+
+    return result;
+  }
+};
@@ -0,0 +1,226 @@
+import axios from 'axios';
+import type { Readable } from 'stream';
+import type { PerplexitySearchResult } from '@/lib/citations';
+import { createSseParser } from '@/lib/sse';
+import { logger } from '@/lib/logger';
+import { LlmError, LlmProvider, LlmRequest, LlmResult, LlmStreamHandlers, LlmUsage } from '@/lib/llm/types';
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+  citations?: string[];
+  search_results?: PerplexitySearchResult[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices: {
+    delta?: {
+      content?: string;
+    };
+  }[];
+  citations?: string[];
+  search_results?: PerplexitySearchResult[];
+  usage?: ChatCompletionUsage; // Perplexity sends it with the final chunks
+}
+
+export interface OpenAiCompatibleOptions {
+  name: string;
+  baseUrl: () => string;
+  apiKey: () => string | undefined;
+  // Provider-specific request fields, e.g. Perplexity's search filters
+  extraBody?: (request: LlmRequest) => Record<string, unknown>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const PING_TIMEOUT_MS = 5000;
+
+function toUsage(usage?: ChatCompletionUsage): LlmUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+    return undefined;
+  }
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+export function toLlmError(error: unknown, provider: string): LlmError {
+  if (error instanceof LlmError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status) {
+      return new LlmError(`${provider} returned ${status}`, status, isRetryableStatus(status));
+    }
+    // No response at all: timeout or network failure
+    return new LlmError(`${provider} request failed: ${error.message}`, undefined, true);
+  }
+
+  return new LlmError(`${provider} request failed: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// Any API that speaks the OpenAI chat completions protocol, including
+// Perplexity, OpenAI itself and local servers such as Ollama
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const buildBody = (request: LlmRequest, model: string) => ({
+    model,
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    ...(options.extraBody ? options.extraBody(request) : {})
+  });
+
+  const buildHeaders = () => ({
+    'Authorization': `Bearer ${options.apiKey()}`,
+    'Content-Type': 'application/json'
+  });
+
+  const url = () => `${options.baseUrl().replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: options.name,
+
+    isConfigured: () => !!options.apiKey(),
+
+    // Any HTTP answer from the models endpoint proves the API is reachable
+    // (Perplexity has none and returns 404); only a rejected key counts as failure
+    async ping(): Promise<void> {
+      try {
+        await axios.get(`${options.baseUrl().replace(/\/+$/, '')}/models`, {
+          headers: buildHeaders(),
+          timeout: PING_TIMEOUT_MS,
+          validateStatus: status => status !== 401 && status !== 403
+        });
+      } catch (error) {
+        throw toLlmError(error, options.name);
+      }
+    },
+
+    async complete(request: LlmRequest, model: string, signal?: AbortSignal): Promise<LlmResult> {
+      try {
+        const response = await axios.post<ChatCompletionResponse>(url(), buildBody(request, model), {
+          headers: buildHeaders(),
+          signal,
+          timeout: request.timeoutMs || DEFAULT_TIMEOUT_MS
+        });
+
+        return {
+          content: response.data.choices[0]?.message?.content || '',
+          citations: response.data.citations,
+          searchResults: response.data.search_results,
+          usage: toUsage(response.data.usage),
+          provider: options.name,
+          model
+        };
+      } catch (error) {
+        throw toLlmError(error, options.name);
+      }
+    },
+
+    async stream(
+      request: LlmRequest,
+      model: string,
+      handlers: LlmStreamHandlers,
+      signal?: AbortSignal
+    ): Promise<LlmResult> {
+      try {
+        const upstream = await axios.post<Readable>(url(), { ...buildBody(request, model), stream: true }, {
+          headers: buildHeaders(),
+          responseType: 'stream',
+          signal,
+          timeout: request.timeoutMs || DEFAULT_TIMEOUT_MS // time to the first byte
+        });
+
+        let content = '';
+        let citations: string[] | undefined;
+        let searchResults: PerplexitySearchResult[] | undefined;
+        let usage: LlmUsage | undefined;
+        const parse = createSseParser(({ data }) => {
+          if (data === '[DONE]') {
+            return;
+          }
+
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch (parseError) {
+            logger.warn('llm_stream_chunk_unparseable', {
+              requestId: request.requestId,
+              provider: options.name,
+              chunk: data.slice(0, 200)
+            });
+            return;
+          }
+
+          // Perplexity repeats the sources found so far on every chunk; keep the latest
+          citations = chunk.citations || citations;
+          searchResults = chunk.search_results || searchResults;
+          usage = toUsage(chunk.usage) || usage;
+
+          const delta = chunk.choices && chunk.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            handlers.onDelta(delta);
+          }
+        });
+
+        // The request timeout only covers the first byte, so a stream that
+        // stalls part-way is ended after the same time without a chunk. Errors
+        // from the handlers end it too, rather than escaping the listener.
+        const idleTimeoutMs = request.timeoutMs || DEFAULT_TIMEOUT_MS;
+        const body = upstream.data;
+        body.setEncoding('utf8');
+        await new Promise<void>((resolve, reject) => {
+          let idleTimer: NodeJS.Timeout | null = null;
+          const resetIdleTimer = () => {
+            if (idleTimer) {
+              clearTimeout(idleTimer);
+            }
+            idleTimer = setTimeout(() => {
+              body.destroy(new LlmError(`${options.name} stream stalled for ${idleTimeoutMs}ms`, undefined, true));
+            }, idleTimeoutMs);
+          };
+          const finish = (error?: Error) => {
+            if (idleTimer) {
+              clearTimeout(idleTimer);
+            }
+            if (error) {
+              reject(error);
+            } else {
+              resolve();
+            }
+          };
+
+          resetIdleTimer();
+          body.on('data', (text: string) => {
+            resetIdleTimer();
+            try {
+              parse(text);
+            } catch (error) {
+              body.destroy(error instanceof Error ? error : new Error(String(error)));
+            }
+          });
+          body.on('end', () => finish());
+          body.on('error', finish);
+        });
+
+        return { content, citations, searchResults, usage, provider: options.name, model };
+      } catch (error) {
+        throw toLlmError(error, options.name);
+      }
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import type { LlmUsage } from '@/lib/llm/types';
+
+interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+// List prices when this was written; Perplexity's per-request search fee is
+// not included. Models missing here are left out of the cost metric.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'perplexity:sonar': { input: 1, output: 1 },
+  'perplexity:sonar-pro': { input: 3, output: 15 },
+  'perplexity:sonar-reasoning': { input: 1, output: 5 },
+  'perplexity:sonar-reasoning-pro': { input: 2, output: 8 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 }
+};
+
+export function estimateCostUsd(provider: string, model: string, usage: LlmUsage): number | null {
+  if (provider === 'mock') {
+    return 0;
+  }
+
+  const price = MODEL_PRICES[`${provider}:${model}`];
+  if (!price) {
+    return null;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { LlmError, LlmProvider, LlmRequest, LlmResult, LlmStreamHandlers } from '@/lib/llm/types';
+
+// Record/replay wrapper for offline evaluation: LLM_CHAIN=replay:perplexity:sonar.
+// The model is the target to wrap. With LLM_REPLAY_MODE=record every call goes
+// to that target and its result is saved; otherwise (the default) the saved
+// result is returned and no request leaves the machine.
+//
+// Fixtures are keyed by request id, one file per request, because prompts
+// carry today's date and would never match byte for byte. Calls within a
+// request (e.g. the topic check, then the answer) are replayed in order.
+
+export interface ReplayCall {
+  target: string;
+  query: string; // the last user message, kept for reviewing fixtures
+  searchDomains?: string[];
+  result: LlmResult;
+}
+
+export interface ReplayFixture {
+  requestId: string;
+  recordedAt: string;
+  calls: ReplayCall[];
+}
+
+const REQUEST_ID_PATTERN = /^[\w.-]{1,100}$/;
+
+function getFixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'data', 'eval', 'fixtures');
+}
+
+function isRecording(): boolean {
+  return process.env.LLM_REPLAY_MODE === 'record';
+}
+
+export function getFixturePath(requestId: string): string {
+  return path.join(getFixturesDir(), `${requestId}.json`);
+}
+
+export function loadFixture(requestId: string): ReplayFixture | null {
+  try {
+    return JSON.parse(fs.readFileSync(getFixturePath(requestId), 'utf8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+function splitTarget(model: string): { providerName: string; innerModel: string } {
+  const separator = model.indexOf(':');
+  return { providerName: model.slice(0, separator), innerModel: model.slice(separator + 1) };
+}
+
+export function createReplayProvider(lookup: (name: string) => LlmProvider | undefined): LlmProvider {
+  // How many calls each request has made so far, to pick the next saved one
+  const callCounts = new Map<string, number>();
+  // Recordings in progress; a request's first call starts a new fixture
+  const recordings = new Map<string, ReplayFixture>();
+
+  const getRequestId = (request: LlmRequest): string => {
+    if (!request.requestId || !REQUEST_ID_PATTERN.test(request.requestId)) {
+      throw new LlmError('Replay needs a request id to find its fixture');
+    }
+    return request.requestId;
+  };
+
+  const getInner = (model: string) => {
+    const { providerName, innerModel } = splitTarget(model);
+    const provider = lookup(providerName);
+    if (!provider || provider.name === 'replay' || !innerModel) {
+      throw new LlmError(`Replay target "${model}" is not a provider:model pair`);
+    }
+    return { provider, innerModel };
+  };
+
+  const replay = (request: LlmRequest): LlmResult => {
+    const requestId = getRequestId(request);
+    const fixture = loadFixture(requestId);
+    if (!fixture) {
+      throw new LlmError(`No fixture for ${requestId}; record one with LLM_REPLAY_MODE=record`);
+    }
+    const index = callCounts.get(requestId) || 0;
+    if (index >= fixture.calls.length) {
+      throw new LlmError(`The fixture for ${requestId} has ${fixture.calls.length} recorded call(s) but the pipeline made more; record it again`);
+    }
+    callCounts.set(requestId, index + 1);
+    return fixture.calls[index].result;
+  };
+
+  const record = (request: LlmRequest, model: string, result: LlmResult): LlmResult => {
+    const requestId = getRequestId(request);
+    const index = callCounts.get(requestId) || 0;
+    callCounts.set(requestId, index + 1);
+    const fixture: ReplayFixture = (index > 0 && recordings.get(requestId)) ||
+      { requestId, recordedAt: new Date().toISOString(), calls: [] };
+
+    fixture.calls.push({
+      target: model,
+      query: request.messages.filter(message => message.role === 'user').pop()?.content || '',
+      searchDomains: request.searchDomains,
+      result
+    });
+    recordings.set(requestId, fixture);
+
+    fs.mkdirSync(getFixturesDir(), { recursive: true });
+    fs.writeFileSync(getFixturePath(requestId), `${JSON.stringify(fixture, null, 2)}\n`);
+    return result;
+  };
+
+  return {
+    name: 'replay',
+
+    isConfigured: () => true,
+
+    ping: async () => undefined,
+
+    async complete(request: LlmRequest, model: string, signal?: AbortSignal): Promise<LlmResult> {
+      if (!isRecording()) {
+        return replay(request);
+      }
+      const { provider, innerModel } = getInner(model);
+      return record(request, model, await provider.complete(request, innerModel, signal));
+    },
+
+    async stream(
+      request: LlmRequest,
+      model: string,
+      handlers: LlmStreamHandlers,
+      signal?: AbortSignal
+    ): Promise<LlmResult> {
+      if (!isRecording()) {
+        const result = replay(request);
+        handlers.onDelta(result.content);
+        return result;
+      }
+      const { provider, innerModel } = getInner(model);
+      return record(request, model, await provider.stream(request, innerModel, handlers, signal));
+    }
+  };
+}
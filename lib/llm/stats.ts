@@ -0,0 +1,77 @@
+// Recent upstream calls, kept in memory for /api/diagnostics
+export interface LlmCallRecord {
+  provider: string;
+  model: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  latencyMs: number;
+  at: number;
+}
+
+export interface LlmTargetStats {
+  target: string; // "<provider>:<model>"
+  calls: number;
+  errors: number;
+  errorRate: number;
+  latencyMs: { p50: number; p90: number; p99: number } | null; // successful calls only
+  lastSuccessAt?: string;
+  lastError?: { at: string; status?: number; error?: string };
+}
+
+const MAX_RECORDS = 1000;
+const records: LlmCallRecord[] = [];
+
+export function recordLlmCall(record: LlmCallRecord): void {
+  records.push(record);
+  if (records.length > MAX_RECORDS) {
+    records.splice(0, records.length - MAX_RECORDS);
+  }
+}
+
+export function getLastLlmSuccess(): LlmCallRecord | undefined {
+  for (let i = records.length - 1; i >= 0; i--) {
+    if (records[i].ok) {
+      return records[i];
+    }
+  }
+  return undefined;
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarizeLlmCalls(windowMs: number, now: number = Date.now()): LlmTargetStats[] {
+  const byTarget: Record<string, LlmCallRecord[]> = {};
+  records
+    .filter(record => record.at > now - windowMs)
+    .forEach(record => {
+      const target = `${record.provider}:${record.model}`;
+      (byTarget[target] = byTarget[target] || []).push(record);
+    });
+
+  return Object.keys(byTarget).map(target => {
+    const calls = byTarget[target];
+    const failures = calls.filter(call => !call.ok);
+    const successes = calls.filter(call => call.ok);
+    const latencies = successes.map(call => call.latencyMs).sort((a, b) => a - b);
+    const lastSuccess = successes[successes.length - 1];
+    const lastError = failures[failures.length - 1];
+
+    return {
+      target,
+      calls: calls.length,
+      errors: failures.length,
+      errorRate: Math.round((failures.length / calls.length) * 1000) / 1000,
+      latencyMs: latencies.length > 0
+        ? { p50: percentile(latencies, 50), p90: percentile(latencies, 90), p99: percentile(latencies, 99) }
+        : null,
+      lastSuccessAt: lastSuccess ? new Date(lastSuccess.at).toISOString() : undefined,
+      lastError: lastError
+        ? { at: new Date(lastError.at).toISOString(), status: lastError.status, error: lastError.error }
+        : undefined
+    };
+  });
+}
@@ -0,0 +1,57 @@
+import type { ChatMessage } from '@/lib/conversation';
+import type { PerplexitySearchResult } from '@/lib/citations';
+import type { SearchRecency } from '@/lib/intents';
+
+export interface LlmRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  // Used by search-backed providers (Perplexity); others ignore them
+  searchDomains?: string[];
+  recency?: SearchRecency;
+  timeoutMs?: number;
+  requestId?: string; // carried into logs
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResult {
+  content: string; // raw model output, which may include <think> reasoning
+  citations?: string[];
+  searchResults?: PerplexitySearchResult[];
+  usage?: LlmUsage; // as reported by the provider
+  provider: string;
+  model: string;
+}
+
+export interface LlmStreamHandlers {
+  onDelta: (content: string) => void;
+}
+
+export interface LlmProvider {
+  name: string;
+  isConfigured(): boolean;
+  complete(request: LlmRequest, model: string, signal?: AbortSignal): Promise<LlmResult>;
+  // Calls onDelta as text arrives and resolves with the whole answer
+  stream(request: LlmRequest, model: string, handlers: LlmStreamHandlers, signal?: AbortSignal): Promise<LlmResult>;
+  // Cheap reachability check that spends no tokens; rejects with an LlmError
+  ping(): Promise<void>;
+}
+
+// `retryable` marks failures worth another attempt at the same model:
+// timeouts, network errors, 429 and 5xx responses
+export class LlmError extends Error {
+  status?: number;
+  retryable: boolean;
+
+  constructor(message: string, status?: number, retryable: boolean = false) {
+    super(message);
+    this.name = 'LlmError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+  // A logger that adds these fields to every line, e.g. the request id
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const REDACTED = '[redacted]';
+const MAX_DEPTH = 5;
+
+// Field names whose values are never logged, whatever they hold
+const SECRET_FIELD = /(authorization|cookie|password|secret|api[-_]?key|^token$|[-_]token$)/i;
+// Credentials that can turn up inside messages, e.g. an echoed request header
+const SECRET_PATTERNS = [/\bBearer\s+[^\s"',]+/gi, /\b(pplx|sk)-[A-Za-z0-9_-]{8,}/g];
+const SECRET_ENV_VARS = ['PERPLEXITY_API_KEY', 'OPENAI_API_KEY', 'ADMIN_TOKEN', 'METRICS_TOKEN', 'VAPID_PRIVATE_KEY', 'SMTP_URL', 'WIDGET_TOKEN_SECRET'];
+
+function redactString(value: string): string {
+  let result = SECRET_PATTERNS.reduce((text, pattern) => text.replace(pattern, REDACTED), value);
+  SECRET_ENV_VARS.forEach(name => {
+    const secret = process.env[name];
+    if (secret && secret.length >= 8) {
+      result = result.split(secret).join(REDACTED);
+    }
+  });
+  return result;
+}
+
+// Copies a value for logging with secrets masked. Errors keep only their name,
+// message and status, since axios errors carry the request config and headers.
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (value instanceof Error) {
+    const status = (value as { status?: unknown }).status;
+    return { name: value.name, message: redactString(value.message), status: typeof status === 'number' ? status : undefined };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const copy: Record<string, unknown> = {};
+  Object.keys(value).forEach(key => {
+    copy[key] = SECRET_FIELD.test(key) ? REDACTED : redact((value as Record<string, unknown>)[key], depth + 1);
+  });
+  return copy;
+}
+
+function getMinLevel(): number {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return LEVELS[level] || LEVELS.info;
+}
+
+// One JSON object per line on stdout (stderr for warnings and errors), so log
+// drains can parse and filter them. LOG_LEVEL sets the minimum (default info).
+export function createLogger(base: LogFields = {}): Logger {
+  const write = (level: LogLevel, event: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < getMinLevel()) {
+      return;
+    }
+
+    const line = JSON.stringify(redact({ time: new Date().toISOString(), level, event, ...base, ...fields }));
+    if (level === 'error' || level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (event, fields) => write('debug', event, fields),
+    info: (event, fields) => write('info', event, fields),
+    warn: (event, fields) => write('warn', event, fields),
+    error: (event, fields) => write('error', event, fields),
+    child: fields => createLogger({ ...base, ...fields })
+  };
+}
+
+export const logger = createLogger();
+
+// Reuses an X-Request-Id from the proxy when it looks like one, otherwise
+// makes a new id, and echoes it back so a resident's report can be traced
+export function getRequestId(req: IncomingMessage, res: ServerResponse): string {
+  const header = req.headers['x-request-id'];
+  const requestId = typeof header === 'string' && /^[\w.-]{1,100}$/.test(header) ? header : randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  return requestId;
+}
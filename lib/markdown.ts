@@ -0,0 +1,276 @@
+// A deliberately small markdown parser for assistant answers. It produces a
+// plain AST that components/Markdown.tsx renders as React elements, so model
+// output is never inserted as HTML: raw tags come through as literal text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'footnote'; index: number }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'code'; text: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Returns a normalised href, or null when the link should render as plain text
+export function sanitizeHref(href: string): string | null {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  const cleaned = href.replace(/[\u0000- \u007f-\u009f]/g, '');
+  try {
+    const url = new URL(cleaned);
+    return SAFE_PROTOCOLS.indexOf(url.protocol) !== -1 ? url.href : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+const INLINE_PATTERN = new RegExp([
+  '`([^`\\n]+)`', // 1: code
+  '\\[([^\\]\\n]+)\\]\\(([^)\\s]+)(?:\\s+"[^"\\n]*")?\\)', // 2, 3: link
+  '\\[(\\d{1,3})\\]', // 4: citation marker
+  '\\*\\*([^\\n]+?)\\*\\*', // 5: strong
+  '__([^\\n]+?)__', // 6: strong
+  '\\*([^\\s*](?:[^\\n*]*[^\\s*])?)\\*', // 7: emphasis
+  '(https?:\\/\\/[^\\s<>()\\[\\]]*[^\\s<>()\\[\\].,;:!?\'"])' // 8: bare URL
+].join('|'), 'g');
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    value.split('\n').forEach((line, i) => {
+      if (i > 0) nodes.push({ type: 'break' });
+      if (line) nodes.push({ type: 'text', text: line });
+    });
+  };
+
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      nodes.push({ type: 'code', text: match[1] });
+    } else if (match[2] !== undefined) {
+      const href = sanitizeHref(match[3]);
+      if (href) {
+        nodes.push({ type: 'link', href, children: parseInline(match[2]) });
+      } else {
+        nodes.push(...parseInline(match[2]));
+      }
+    } else if (match[4] !== undefined) {
+      nodes.push({ type: 'footnote', index: Number(match[4]) });
+    } else if (match[5] !== undefined || match[6] !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(match[5] || match[6]) });
+    } else if (match[7] !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(match[7]) });
+    } else if (match[8] !== undefined) {
+      const href = sanitizeHref(match[8]);
+      if (href) {
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: match[8] }] });
+      } else {
+        pushText(match[8]);
+      }
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+function indentOf(line: string): number {
+  return line.length - line.replace(/^\s+/, '').length;
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|')) row = row.slice(0, -1);
+  return row.split('|').map(cell => cell.trim());
+}
+
+function parseTableAlign(line: string): TableAlign[] | null {
+  if (line.indexOf('|') === -1 && line.indexOf('-') === -1) {
+    return null;
+  }
+  const cells = splitTableRow(line);
+  if (cells.length === 0 || !cells.every(cell => /^:?-+:?$/.test(cell))) {
+    return null;
+  }
+  return cells.map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].indexOf('|') !== -1 && i + 1 < lines.length && parseTableAlign(lines[i + 1]) !== null;
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) ||
+    BLOCKQUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+}
+
+export function parseMarkdown(markdown: string): BlockNode[] {
+  return parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseBlocks(lines: string[]): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence (or end of a still-streaming answer)
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      let quote: RegExpMatchArray | null;
+      while (i < lines.length && (quote = lines[i].match(BLOCKQUOTE))) {
+        quoted.push(quote[1]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = parseTableAlign(lines[i + 1]) || [];
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].indexOf('|') !== -1) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const baseIndent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: BlockNode[][] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || item[1].length !== baseIndent || /\d/.test(item[2]) !== ordered) {
+          break;
+        }
+
+        const contentIndent = baseIndent + item[2].length + 1;
+        const itemLines = [item[3]];
+        i++;
+
+        // Continuation lines: anything indented past the marker, or lazy text
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            const following = lines[i + 1];
+            if (following !== undefined && following.trim() && indentOf(following) > baseIndent) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) > baseIndent) {
+            itemLines.push(next.slice(Math.min(indentOf(next), contentIndent)));
+            i++;
+            continue;
+          }
+          if (!startsBlock(lines, i)) {
+            itemLines.push(next.trim());
+            i++;
+            continue;
+          }
+          break;
+        }
+
+        items.push(parseBlocks(itemLines));
+
+        // Allow one blank line between items of a loose list
+        if (i < lines.length && !lines[i].trim()) {
+          const following = lines[i + 1] !== undefined ? lines[i + 1].match(LIST_ITEM) : null;
+          if (following && following[1].length === baseIndent) {
+            i++;
+          }
+        }
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listItem[2], 10) : 1,
+        items
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,289 @@
+import fs from 'fs';
+import path from 'path';
+import { IcsEvent, buildIcsCalendar, icsDateToIso, ukLocalToUtc } from '@/lib/ical';
+import { logger } from '@/lib/logger';
+
+export interface Meeting {
+  id: string;
+  committee: string;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM, UK local time
+  venue?: string;
+  agendaUrl?: string;
+  minutesUrl?: string;
+}
+
+const MEETINGS_FILE = path.join(process.cwd(), 'data', 'meetings', 'meetings.json');
+export const MEETINGS_PAGE_URL = 'https://www.northstowetowncouncil.gov.uk/Meetings_Agendas__and__Minutes_38186.aspx';
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE_PATTERN = /\b(\d{1,2})(?:st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})\b|\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/i;
+const TIME_PATTERN = /\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)\b|\b([01]?\d|2[0-3]):([0-5]\d)\b/i;
+const COMMITTEE_PATTERN = /\b((?:Annual|Extraordinary|Full)\s+(?:Town\s+)?Council(?:\s+Meeting)?|Annual\s+(?:Town|Parish)\s+Meeting|(?:[A-Z][\w&,]*\s+){1,4}(?:Committee|Working\s+Group|Sub-Committee))\b/;
+const VENUE_PATTERN = /\b(?:venue|location|held at)\s*:?\s*([^|\n]+)|\bat\s+((?:the\s+)?[A-Z][^.\n|]*)/i;
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function meetingId(date: string, committee: string): string {
+  return `${date}-${slugify(committee)}`;
+}
+
+function parseDate(text: string): string | null {
+  const match = text.match(DATE_PATTERN);
+  if (!match) return null;
+
+  if (match[1]) {
+    const month = MONTHS.indexOf(match[2].toLowerCase().slice(0, 3)) + 1;
+    return `${match[3]}-${pad(month)}-${pad(Number(match[1]))}`;
+  }
+  // Council pages use UK day/month/year order
+  return `${match[6]}-${pad(Number(match[5]))}-${pad(Number(match[4]))}`;
+}
+
+function parseTime(text: string): string | undefined {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return undefined;
+
+  if (match[3]) {
+    let hours = Number(match[1]) % 12;
+    if (match[3].toLowerCase() === 'pm') hours += 12;
+    return `${pad(hours)}:${match[2] || '00'}`;
+  }
+  return `${pad(Number(match[4]))}:${match[5]}`;
+}
+
+function parseVenue(text: string): string | undefined {
+  const match = text.match(VENUE_PATTERN);
+  const venue = match && (match[1] || match[2]);
+  return venue ? venue.trim().replace(/[\s,;]+$/, '') : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&rsquo;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function resolveUrl(href: string, baseUrl: string): string {
+  try {
+    return new URL(decodeEntities(href), baseUrl).href;
+  } catch (error) {
+    return href;
+  }
+}
+
+// Turns a saved copy of the council's meetings page into records. The page is
+// a list of rows (table rows, list items or paragraphs), each naming a date and
+// linking to its agenda and minutes; headings set the committee for the rows below.
+export function parseMeetingsHtml(html: string, baseUrl: string = MEETINGS_PAGE_URL): Meeting[] {
+  const meetings: Meeting[] = [];
+  let currentHeading = 'Full Council';
+
+  const blocks = html
+    .replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>/gi, '')
+    .split(/(?=<(?:tr|li|p|h[1-6])\b)/i);
+
+  blocks.forEach(block => {
+    const headingMatch = block.match(/^<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/i);
+    if (headingMatch) {
+      const heading = stripTags(headingMatch[1]);
+      if (/council|committee|group|meeting/i.test(heading) && !parseDate(heading)) {
+        currentHeading = heading.replace(/\s*(agendas?|minutes|and|&|meetings?)+\s*$/i, '').trim() || currentHeading;
+      }
+    }
+
+    const text = stripTags(block);
+    const date = parseDate(text);
+    if (!date) return;
+
+    const links: { href: string; text: string }[] = [];
+    const linkPattern = /<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+    let link: RegExpExecArray | null;
+    while ((link = linkPattern.exec(block)) !== null) {
+      links.push({ href: resolveUrl(link[1], baseUrl), text: `${stripTags(link[2])} ${link[1]}` });
+    }
+
+    const committeeMatch = text.match(COMMITTEE_PATTERN);
+    const committee = committeeMatch ? committeeMatch[1].replace(/\s+/g, ' ').trim() : currentHeading;
+    const agenda = links.find(candidate => /agenda/i.test(candidate.text));
+    const minutes = links.find(candidate => /minutes/i.test(candidate.text));
+
+    // The same meeting can be listed once for its agenda and again for its minutes
+    const id = meetingId(date, committee);
+    const existing = meetings.find(meeting => meeting.id === id);
+    if (existing) {
+      existing.agendaUrl = existing.agendaUrl || agenda?.href;
+      existing.minutesUrl = existing.minutesUrl || minutes?.href;
+      return;
+    }
+
+    // Link labels ("Agenda", "Minutes") would otherwise run on into the venue
+    const details = stripTags(block.replace(/<a\b[\s\S]*?<\/a>/gi, ' ')).replace(DATE_PATTERN, ' ');
+    meetings.push({
+      id,
+      committee,
+      date,
+      time: parseTime(details),
+      venue: parseVenue(details),
+      agendaUrl: agenda?.href,
+      minutesUrl: minutes?.href
+    });
+  });
+
+  return meetings;
+}
+
+// "20251023T180000Z" is UTC and converted; floating or TZID times are taken as UK local
+function icsTimeToUkLocal(value: string): string | undefined {
+  const match = value.match(/T(\d{2})(\d{2})\d{2}(Z?)$/);
+  if (!match) return undefined;
+  if (!match[3]) return `${match[1]}:${match[2]}`;
+
+  const utc = new Date(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T${match[1]}:${match[2]}:00Z`);
+  return utc.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' });
+}
+
+// For councils that publish an iCalendar feed instead
+export function meetingsFromIcs(events: IcsEvent[]): Meeting[] {
+  return events
+    .map(event => {
+      const date = icsDateToIso(event.start);
+      if (!date) return null;
+
+      const committee = event.summary.replace(/\s*meeting\s*$/i, '').trim() || 'Full Council';
+      return {
+        id: meetingId(date, committee),
+        committee,
+        date,
+        time: icsTimeToUkLocal(event.start),
+        venue: event.location,
+        agendaUrl: event.properties.URL
+      };
+    })
+    .filter((meeting): meeting is NonNullable<typeof meeting> => meeting !== null);
+}
+
+// Newer records win, but a link is never dropped because a later snapshot lacks it
+export function mergeMeetings(existing: Meeting[], incoming: Meeting[]): Meeting[] {
+  const byId: Record<string, Meeting> = {};
+  existing.concat(incoming).forEach(meeting => {
+    const previous = byId[meeting.id];
+    byId[meeting.id] = previous
+      ? {
+          ...previous,
+          ...meeting,
+          time: meeting.time || previous.time,
+          venue: meeting.venue || previous.venue,
+          agendaUrl: meeting.agendaUrl || previous.agendaUrl,
+          minutesUrl: meeting.minutesUrl || previous.minutesUrl
+        }
+      : meeting;
+  });
+
+  return Object.keys(byId)
+    .map(id => byId[id])
+    .sort((a, b) => `${a.date} ${a.time || ''}`.localeCompare(`${b.date} ${b.time || ''}`));
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export function loadMeetings(file: string = MEETINGS_FILE): Meeting[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('meetings_load_failed', { file, error });
+    }
+    return [];
+  }
+
+  // Entries without an id, committee and date, or with a malformed date or
+  // time, are skipped rather than shown or put in the calendar
+  const meetings: Meeting[] = [];
+  (Array.isArray(entries) ? entries : []).forEach((value: unknown, index: number) => {
+    const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const time = optionalString(entry.time);
+    if (typeof entry.id !== 'string' || typeof entry.committee !== 'string' ||
+      typeof entry.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date) ||
+      (time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time))) {
+      logger.warn('meeting_skipped', { file, index });
+      return;
+    }
+    meetings.push({
+      id: entry.id,
+      committee: entry.committee,
+      date: entry.date,
+      time,
+      venue: optionalString(entry.venue),
+      agendaUrl: optionalString(entry.agendaUrl),
+      minutesUrl: optionalString(entry.minutesUrl)
+    });
+  });
+  return meetings;
+}
+
+export function getUpcomingMeetings(today: string, limit?: number, meetings: Meeting[] = loadMeetings()): Meeting[] {
+  const upcoming = meetings.filter(meeting => meeting.date >= today);
+  return limit === undefined ? upcoming : upcoming.slice(0, limit);
+}
+
+function formatMeetingDate(meeting: Meeting): string {
+  const [year, month, day] = meeting.date.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+  return meeting.time ? `${date} at ${meeting.time}` : date;
+}
+
+// Lines for the chat system prompt
+export function formatMeetingsForPrompt(meetings: Meeting[]): string {
+  return meetings
+    .map(meeting => {
+      const venue = meeting.venue ? `, ${meeting.venue}` : '';
+      const agenda = meeting.agendaUrl ? ` (agenda: ${meeting.agendaUrl})` : '';
+      return `- ${meeting.committee}: ${formatMeetingDate(meeting)}${venue}${agenda}`;
+    })
+    .join('\n');
+}
+
+export function buildMeetingsCalendar(meetings: Meeting[]): string {
+  return buildIcsCalendar('Northstowe Town Council meetings', meetings.map(meeting => {
+    const start = ukLocalToUtc(meeting.date, meeting.time || '19:00');
+    const links = [
+      meeting.agendaUrl ? `Agenda: ${meeting.agendaUrl}` : '',
+      meeting.minutesUrl ? `Minutes: ${meeting.minutesUrl}` : ''
+    ].filter(Boolean);
+
+    return {
+      uid: `${meeting.id}@ama-northstowe`,
+      start,
+      end: start + DEFAULT_DURATION_MS,
+      summary: `Northstowe ${meeting.committee}`,
+      location: meeting.venue,
+      description: links.length > 0 ? links.join('\n') : `See ${MEETINGS_PAGE_URL}`,
+      url: meeting.agendaUrl || MEETINGS_PAGE_URL
+    };
+  }));
+}
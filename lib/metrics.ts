@@ -0,0 +1,183 @@
+// In-process counters and histograms, rendered in the Prometheus text format
+// by /api/metrics. Values reset on restart and are per instance; Prometheus
+// handles both when it scrapes every instance.
+
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram' | 'gauge';
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+}
+
+const metrics: Metric[] = [];
+
+// Upstream answers take seconds, so the buckets reach further than the usual defaults
+const SECONDS_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const keys = Object.keys(labels).sort();
+  if (keys.length === 0) {
+    return '';
+  }
+  return `{${keys.map(key => `${key}="${escapeLabelValue(labels[key])}"`).join(',')}}`;
+}
+
+// Registering a name again replaces the old metric, which happens when a
+// module is reloaded in development
+function register(metric: Metric): void {
+  const index = metrics.map(existing => existing.name).indexOf(metric.name);
+  if (index === -1) {
+    metrics.push(metric);
+  } else {
+    metrics[index] = metric;
+  }
+}
+
+export function createCounter(name: string, help: string): Counter {
+  const values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  register({
+    name,
+    help,
+    type: 'counter',
+    render: () => {
+      const lines: string[] = [];
+      values.forEach(entry => lines.push(`${name}${formatLabels(entry.labels)} ${entry.value}`));
+      return lines;
+    }
+  });
+
+  return {
+    inc(labels: MetricLabels = {}, value: number = 1) {
+      const key = formatLabels(labels);
+      const entry = values.get(key);
+      if (entry) {
+        entry.value += value;
+      } else {
+        values.set(key, { labels, value });
+      }
+    }
+  };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[] = SECONDS_BUCKETS): Histogram {
+  const series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () => {
+      const lines: string[] = [];
+      series.forEach(entry => {
+        // Bucket counts are cumulative: each includes every smaller bucket
+        buckets.forEach((bound, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${entry.counts[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+        lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+        lines.push(`${name}_count${formatLabels(entry.labels)} ${entry.count}`);
+      });
+      return lines;
+    }
+  });
+
+  return {
+    observe(labels: MetricLabels, value: number) {
+      const key = formatLabels(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      for (let i = 0; i < buckets.length; i++) {
+        if (value <= buckets[i]) {
+          entry.counts[i]++;
+        }
+      }
+      entry.sum += value;
+      entry.count++;
+    }
+  };
+}
+
+// Read when scraped rather than updated as things change
+export function createGauge(name: string, help: string, collect: () => number): void {
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => [`${name} ${collect()}`]
+  });
+}
+
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  metrics.forEach(metric => {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+// The service's metrics. Label values come from fixed sets (intents, outcomes,
+// configured models), never from user input, to keep the series count small.
+
+export const chatRequests = createCounter(
+  'ama_chat_requests_total',
+  'Chat requests by intent and outcome (llm, cache, correction, knowledge-base, bins, off_topic, prompt_injection, rate_limited, invalid, aborted, error)'
+);
+
+export const chatDuration = createHistogram(
+  'ama_chat_request_duration_seconds',
+  'Time to handle a chat request, by outcome'
+);
+
+export const topicRefusals = createCounter(
+  'ama_topic_refusals_total',
+  'Questions refused as not about Northstowe, by the rule that decided'
+);
+
+export const rateLimitHits = createCounter(
+  'ama_rate_limit_hits_total',
+  'Requests rejected by the rate limiter, by route'
+);
+
+export const llmDuration = createHistogram(
+  'ama_llm_request_duration_seconds',
+  'Upstream model call latency, by provider, model and outcome'
+);
+
+export const llmTokens = createCounter(
+  'ama_llm_tokens_total',
+  'Tokens used by upstream model calls, by provider, model and type (prompt or completion)'
+);
+
+export const llmCost = createCounter(
+  'ama_llm_cost_usd_total',
+  'Estimated upstream model cost in US dollars, for models with a known price'
+);
+
+export const notificationsSent = createCounter(
+  'ama_notifications_total',
+  'Reminders by channel (push or email) and outcome (sent, failed, or removed for push subscriptions the browser dropped)'
+);
+
+export const apiRequests = createCounter(
+  'ama_api_requests_total',
+  'Questions to /api/v1/ask by API key id and outcome (the chat outcomes, plus quota_exceeded)'
+);
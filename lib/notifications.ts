@@ -0,0 +1,282 @@
+import { formatCollectionDate, getUpcomingCollections, lookupAddress, ukToday } from '@/lib/bins';
+import { getUpcomingMeetings } from '@/lib/meetings';
+import { getActiveNotices } from '@/lib/announcements';
+import { getMessages } from '@/lib/i18n';
+import { EmailMessage, getEmailTransport } from '@/lib/email';
+import { getVapidKeys, sendWebPush } from '@/lib/webPush';
+import {
+  NotificationChannel,
+  NotificationTopic,
+  Subscription,
+  isPushServiceEndpoint,
+  listSubscriptions,
+  markSent,
+  removeSubscription
+} from '@/lib/subscriptions';
+import { logger } from '@/lib/logger';
+import { notificationsSent } from '@/lib/metrics';
+
+// Reminders are built from local data only (the bin rounds, the council
+// calendar and moderators' announcements), never from the model. Each has a
+// key, and a key is sent to a subscription once, so the job can run as often
+// as the scheduler likes; the evening before bin day is the natural time.
+
+export interface Reminder {
+  key: string; // e.g. "bins:2025-10-24", "meeting:<id>", "announcement:<id>"
+  topic: NotificationTopic;
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface NotificationRunSummary {
+  subscriptions: number;
+  reminders: number;
+  sent: number;
+  failed: number;
+  removed: number;
+  dryRun: boolean;
+}
+
+export interface ReminderPreview {
+  subscriptionId: string;
+  channel: NotificationChannel;
+  reminders: Reminder[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let running = false;
+let lastRun: (NotificationRunSummary & { finishedAt: string }) | null = null;
+
+// Links in emails and notifications need the public address of the site
+export function getAppUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function remindersPageUrl(token: string, action?: 'confirm' | 'unsubscribe'): string {
+  return `${getAppUrl()}/reminders?token=${encodeURIComponent(token)}${action ? `&action=${action}` : ''}`;
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(`${iso}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function buildReminders(subscription: Subscription, now: number = Date.now()): Reminder[] {
+  const t = getMessages(subscription.locale).notifications;
+  const today = ukToday(new Date(now));
+  const tomorrow = addDays(today, 1);
+  const reminders: Reminder[] = [];
+  const wants = (topic: NotificationTopic) => subscription.topics.indexOf(topic) !== -1;
+
+  const lookup = wants('bins') && subscription.street ? lookupAddress(subscription.street) : null;
+  if (lookup) {
+    const collection = getUpcomingCollections(lookup.round, tomorrow, 1).filter(candidate => candidate.date === tomorrow)[0];
+    if (collection) {
+      reminders.push({
+        key: `bins:${collection.date}`,
+        topic: 'bins',
+        title: t.binsTitle,
+        body: t.binsBody(collection.bins.map(colour => t.binNames[colour]), formatCollectionDate(collection.date, subscription.locale)),
+        url: getAppUrl()
+      });
+    }
+  }
+
+  // Today's and tomorrow's meetings, so a late run still catches them
+  if (wants('meetings')) {
+    getUpcomingMeetings(today)
+      .filter(meeting => meeting.date <= tomorrow)
+      .forEach(meeting => {
+        const when = `${formatCollectionDate(meeting.date, subscription.locale)}${meeting.time ? `, ${meeting.time}` : ''}`;
+        reminders.push({
+          key: `meeting:${meeting.id}`,
+          topic: 'meetings',
+          title: t.meetingTitle(meeting.committee),
+          body: t.meetingBody(when, meeting.venue),
+          url: meeting.agendaUrl || getAppUrl()
+        });
+      });
+  }
+
+  // Only announcements that started after the resident subscribed; older ones
+  // are already in the site banner
+  if (wants('announcements')) {
+    getActiveNotices(undefined, now)
+      .filter(notice => notice.kind === 'announcement' && notice.startsAt >= subscription.createdAt)
+      .forEach(notice => {
+        reminders.push({
+          key: `announcement:${notice.id}`,
+          topic: 'announcements',
+          title: t.announcementTitle,
+          body: notice.text,
+          url: getAppUrl()
+        });
+      });
+  }
+
+  return reminders;
+}
+
+// Mail clients show an unsubscribe button for these headers, and the POST
+// form unsubscribes in one click (RFC 8058)
+function unsubscribeHeaders(subscription: Subscription): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${getAppUrl()}/api/subscriptions/unsubscribe?token=${encodeURIComponent(subscription.token)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  };
+}
+
+export function buildDigestEmail(subscription: Subscription, reminders: Reminder[]): EmailMessage {
+  const t = getMessages(subscription.locale).notifications;
+  const items = reminders.map(reminder => `${reminder.title}\n${reminder.body}${reminder.url !== getAppUrl() ? `\n${reminder.url}` : ''}`);
+  return {
+    to: subscription.email || '',
+    subject: t.digestSubject,
+    text: [
+      t.digestIntro,
+      items.join('\n\n'),
+      `--\n${t.manageLink(remindersPageUrl(subscription.token))}\n${t.unsubscribeLink(remindersPageUrl(subscription.token, 'unsubscribe'))}`
+    ].join('\n\n'),
+    headers: unsubscribeHeaders(subscription)
+  };
+}
+
+export function buildConfirmationEmail(subscription: Subscription): EmailMessage {
+  const t = getMessages(subscription.locale).notifications;
+  return {
+    to: subscription.email || '',
+    subject: t.confirmSubject,
+    text: t.confirmBody(remindersPageUrl(subscription.token, 'confirm'))
+  };
+}
+
+// Sent when someone subscribes an address that is already confirmed, so only
+// its owner can change anything
+export function buildManageEmail(subscription: Subscription): EmailMessage {
+  const t = getMessages(subscription.locale).notifications;
+  return {
+    to: subscription.email || '',
+    subject: t.manageSubject,
+    text: t.manageBody(remindersPageUrl(subscription.token)),
+    headers: unsubscribeHeaders(subscription)
+  };
+}
+
+// Sends what each confirmed subscription hasn't had yet: one push per reminder,
+// or one email with all of them. Failed reminders are tried again next run.
+async function deliver(subscription: Subscription, reminders: Reminder[], now: number): Promise<{ sent: string[]; removed: boolean }> {
+  const sent: string[] = [];
+
+  if (subscription.channel === 'email') {
+    const transport = getEmailTransport();
+    if (!transport || !subscription.email) {
+      throw new Error('Email is not configured');
+    }
+    await transport.send(buildDigestEmail(subscription, reminders));
+    return { sent: reminders.map(reminder => reminder.key), removed: false };
+  }
+
+  const vapidKeys = getVapidKeys();
+  if (!vapidKeys || !subscription.push) {
+    throw new Error('Web push is not configured');
+  }
+  // Subscriptions saved before endpoints were checked, or with a push service
+  // since taken off PUSH_SERVICE_HOSTS, are dropped rather than posted to
+  if (!isPushServiceEndpoint(subscription.push.endpoint)) {
+    logger.warn('push_endpoint_rejected', { subscriptionId: subscription.id });
+    removeSubscription(subscription.id);
+    return { sent, removed: true };
+  }
+  for (let i = 0; i < reminders.length; i++) {
+    const reminder = reminders[i];
+    const result = await sendWebPush(subscription.push, {
+      title: reminder.title,
+      body: reminder.body,
+      url: reminder.url,
+      tag: reminder.key
+    }, vapidKeys, undefined, now);
+    if (result.gone) {
+      removeSubscription(subscription.id);
+      return { sent, removed: true };
+    }
+    if (!result.ok) {
+      // Keep what already went out; the rest are tried next run
+      logger.warn('notification_failed', { subscriptionId: subscription.id, channel: 'push', status: result.status });
+      break;
+    }
+    sent.push(reminder.key);
+  }
+  return { sent, removed: false };
+}
+
+export function isNotificationRunInProgress(): boolean {
+  return running;
+}
+
+export function getLastNotificationRun() {
+  return lastRun;
+}
+
+export async function runNotifications(
+  options: { now?: number; dryRun?: boolean } = {}
+): Promise<{ summary: NotificationRunSummary; previews: ReminderPreview[] }> {
+  const now = options.now || Date.now();
+  const dryRun = !!options.dryRun;
+  const summary: NotificationRunSummary = { subscriptions: 0, reminders: 0, sent: 0, failed: 0, removed: 0, dryRun };
+  const previews: ReminderPreview[] = [];
+
+  running = true;
+  try {
+    const subscriptions = listSubscriptions().filter(subscription => subscription.confirmed);
+    summary.subscriptions = subscriptions.length;
+
+    for (let i = 0; i < subscriptions.length; i++) {
+      const subscription = subscriptions[i];
+      const pending = buildReminders(subscription, now).filter(reminder => !subscription.sent[reminder.key]);
+      if (pending.length === 0) {
+        continue;
+      }
+      summary.reminders += pending.length;
+      if (dryRun) {
+        previews.push({ subscriptionId: subscription.id, channel: subscription.channel, reminders: pending });
+        continue;
+      }
+
+      const labels = { channel: subscription.channel };
+      let sent: string[] = [];
+      let removed = false;
+      try {
+        const result = await deliver(subscription, pending, now);
+        sent = result.sent;
+        removed = result.removed;
+      } catch (error) {
+        logger.warn('notification_failed', { subscriptionId: subscription.id, channel: subscription.channel, error });
+      }
+
+      if (removed) {
+        summary.removed++;
+        notificationsSent.inc({ ...labels, outcome: 'removed' });
+        logger.info('subscription_removed', { subscriptionId: subscription.id, reason: 'push_gone' });
+      }
+      const failed = removed ? 0 : pending.length - sent.length;
+      summary.sent += sent.length;
+      summary.failed += failed;
+      if (sent.length > 0) {
+        notificationsSent.inc({ ...labels, outcome: 'sent' }, sent.length);
+        markSent(subscription.id, sent, now);
+      }
+      if (failed > 0) {
+        notificationsSent.inc({ ...labels, outcome: 'failed' }, failed);
+      }
+    }
+  } finally {
+    running = false;
+  }
+
+  if (!dryRun) {
+    lastRun = { ...summary, finishedAt: new Date().toISOString() };
+  }
+  logger.info('notifications_run', { ...summary });
+  return { summary, previews };
+}
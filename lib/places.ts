@@ -0,0 +1,383 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '@/lib/logger';
+
+export type PlaceCategory =
+  | 'street'
+  | 'busway-stop'
+  | 'bus-stop'
+  | 'school'
+  | 'health'
+  | 'pharmacy'
+  | 'community'
+  | 'shop'
+  | 'park'
+  | 'sports';
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export interface Place {
+  id: string;
+  name: string;
+  category: PlaceCategory;
+  aliases: string[];
+  points: LatLon[]; // one for a point, the vertices of a street or area
+  postcode?: string;
+  address?: string;
+  url?: string;
+}
+
+// Where distances are measured from. "question" means a place named in the
+// question ("closest bus stop to Heron Road"); the others are the resident's
+// saved location setting.
+export interface PlaceOrigin {
+  label: string;
+  point: LatLon;
+  source: 'question' | 'street' | 'coordinates';
+  placeId?: string;
+}
+
+export interface PlaceMatch {
+  place: Place;
+  metres?: number; // unset when there is no origin to measure from
+  walkMinutes?: number;
+  cycleMinutes?: number;
+}
+
+export interface PlacesContext {
+  origin: PlaceOrigin | null;
+  outsideArea: boolean; // the resident's coordinates were too far away to use
+  categories: PlaceCategory[];
+  matches: PlaceMatch[];
+}
+
+// The resident's "use my location" or "my street" setting, sent with each question
+export interface UserLocation {
+  street?: string;
+  lat?: number;
+  lon?: number;
+}
+
+export const PLACE_CATEGORIES: Record<PlaceCategory, string> = {
+  street: 'street',
+  'busway-stop': 'busway stop',
+  'bus-stop': 'bus stop',
+  school: 'school',
+  health: 'GP surgery or clinic',
+  pharmacy: 'pharmacy',
+  community: 'community building',
+  shop: 'shop',
+  park: 'park or play area',
+  sports: 'sports facility'
+};
+
+const PLACES_FILE = path.join(process.cwd(), 'data', 'places', 'places.geojson');
+
+// What the question asks for, and which categories answer it. A bus question
+// is answered by busway stops too.
+const CATEGORY_PATTERNS: { categories: PlaceCategory[]; patterns: RegExp[] }[] = [
+  { categories: ['pharmacy'], patterns: [/\bpharmac(y|ies|ist)\b/, /\bchemists?\b/] },
+  { categories: ['health'], patterns: [/\bgp\b/, /\bdoctors?\b/, /\bsurgery\b/, /\bhealth (centre|center)\b/, /\bclinic\b/] },
+  { categories: ['busway-stop'], patterns: [/\bbusway\b/, /\bpark and ride\b/, /\bp ?& ?r\b/] },
+  { categories: ['bus-stop', 'busway-stop'], patterns: [/\bbus stops?\b/, /\bbus(es)?\b/] },
+  { categories: ['school'], patterns: [/\bschools?\b/, /\bnurser(y|ies)\b/, /\bcollege\b/] },
+  { categories: ['community'], patterns: [/\bcommunity (centre|center|hub|building|hall)\b/, /\bvillage hall\b/] },
+  { categories: ['shop'], patterns: [/\bshops?\b/, /\bsupermarkets?\b/, /\btesco\b/, /\bconvenience store\b/, /\bgroceries\b/] },
+  { categories: ['park'], patterns: [/\bparks?\b/, /\bplay ?(grounds?|areas?|parks?)\b/, /\bgreen spaces?\b/] },
+  { categories: ['sports'], patterns: [/\bsports?\b/, /\bpitch(es)?\b/, /\bgym\b/, /\bleisure\b/] }
+];
+
+const LOCATION_QUESTION = /\b(nearest|closest|nearby|near me|near to|near my|how far|walking distance|cycling distance|distance (to|from)|walk to|cycle to|get to|directions|where is|where's|where are)\b/;
+
+// Walking and cycling times are estimated from the straight-line distance,
+// allowing for paths not running straight
+const ROUTE_FACTOR = 1.3;
+const WALK_METRES_PER_MINUTE = 80; // 4.8 km/h
+const CYCLE_METRES_PER_MINUTE = 250; // 15 km/h
+
+// Coordinates further than this from every gazetteer place are not in Northstowe
+const MAX_ORIGIN_METRES = 5000;
+const MAX_MATCHES = 3;
+const EARTH_RADIUS_METRES = 6371000;
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isCategory(value: unknown): value is PlaceCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLACE_CATEGORIES, value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// GeoJSON positions are [longitude, latitude]; anything else is dropped
+function toPoint(position: unknown): LatLon | null {
+  if (!Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number' ||
+    isNaN(position[0]) || isNaN(position[1])) {
+    return null;
+  }
+  return { lat: position[1], lon: position[0] };
+}
+
+function geometryPoints(value: unknown): LatLon[] {
+  const geometry = asRecord(value);
+  const coordinates = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+  let positions: unknown[] = [];
+  switch (geometry.type) {
+    case 'Point':
+      positions = [coordinates];
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      positions = coordinates;
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      positions = coordinates.reduce<unknown[]>((all, line) => all.concat(Array.isArray(line) ? line : []), []);
+      break;
+  }
+  return positions
+    .map(toPoint)
+    .filter((point): point is LatLon => point !== null);
+}
+
+export function loadPlaces(file: string = PLACES_FILE): Place[] {
+  let collection: unknown;
+  try {
+    collection = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('places_load_failed', { file, error });
+    }
+    return [];
+  }
+
+  const places: Place[] = [];
+  const features = asRecord(collection).features;
+  (Array.isArray(features) ? features : []).forEach((value: unknown, index: number) => {
+    const feature = asRecord(value);
+    const properties = asRecord(feature.properties);
+    const name = properties.name;
+    const category = properties.category;
+    const points = geometryPoints(feature.geometry);
+
+    if (typeof name !== 'string' || !isCategory(category) || points.length === 0) {
+      logger.warn('place_skipped', { file, index, name });
+      return;
+    }
+
+    const aliases = Array.isArray(properties.aliases) ? properties.aliases : [];
+    places.push({
+      id: optionalString(properties.id) || slugify(name),
+      name,
+      category,
+      aliases: aliases.filter((alias): alias is string => typeof alias === 'string'),
+      points,
+      postcode: optionalString(properties.postcode),
+      address: optionalString(properties.address),
+      url: optionalString(properties.url)
+    });
+  });
+
+  return places;
+}
+
+let places: Place[] | null = null;
+
+export function getPlaces(): Place[] {
+  if (!places) {
+    places = loadPlaces();
+  }
+  return places;
+}
+
+export function distanceMetres(a: LatLon, b: LatLon): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Streets and areas are measured to their nearest vertex
+function distanceToPlace(point: LatLon, place: Place): number {
+  return Math.min(...place.points.map(vertex => distanceMetres(point, vertex)));
+}
+
+// A street is measured from its middle vertex when it is the starting point
+function placeCentre(place: Place): LatLon {
+  return place.points[Math.floor(place.points.length / 2)];
+}
+
+export function travelMinutes(metres: number): { walkMinutes: number; cycleMinutes: number } {
+  return {
+    walkMinutes: Math.max(1, Math.round(metres * ROUTE_FACTOR / WALK_METRES_PER_MINUTE)),
+    cycleMinutes: Math.max(1, Math.round(metres * ROUTE_FACTOR / CYCLE_METRES_PER_MINUTE))
+  };
+}
+
+export function measureFrom(origin: LatLon | null, place: Place): PlaceMatch {
+  if (!origin) {
+    return { place };
+  }
+  const metres = Math.round(distanceToPlace(origin, place));
+  return { place, metres, ...travelMinutes(metres) };
+}
+
+export function findPlaceByName(name: string, data: Place[] = getPlaces()): Place | null {
+  const wanted = normalizeName(name);
+  if (!wanted) return null;
+  return data.filter(place => [place.name].concat(place.aliases).some(candidate => normalizeName(candidate) === wanted))[0] || null;
+}
+
+// Places named in the text, in the order they appear. Longer names win, so
+// "Pathfinder Way" is the street rather than the school called "Pathfinder".
+export function findNamedPlaces(text: string, data: Place[] = getPlaces()): { place: Place; index: number }[] {
+  let remaining = ` ${normalizeName(text)} `;
+  const names = data
+    .map(place => [place.name].concat(place.aliases).map(name => ({ place, name: normalizeName(name) })))
+    .reduce((all, list) => all.concat(list), [] as { place: Place; name: string }[])
+    .filter(entry => entry.name)
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const found: { place: Place; index: number }[] = [];
+  names.forEach(entry => {
+    const match = new RegExp(` ${escapeRegExp(entry.name)} `).exec(remaining);
+    if (match && !found.some(item => item.place.id === entry.place.id)) {
+      found.push({ place: entry.place, index: match.index });
+      remaining = remaining.slice(0, match.index + 1) + ' '.repeat(entry.name.length) + remaining.slice(match.index + 1 + entry.name.length);
+    }
+  });
+
+  return found.sort((a, b) => a.index - b.index);
+}
+
+export function detectPlaceCategories(text: string): PlaceCategory[] {
+  const normalized = text.toLowerCase();
+  const categories: PlaceCategory[] = [];
+  CATEGORY_PATTERNS.forEach(entry => {
+    if (entry.patterns.some(pattern => pattern.test(normalized))) {
+      entry.categories.forEach(category => {
+        if (categories.indexOf(category) === -1) categories.push(category);
+      });
+    }
+  });
+  return categories;
+}
+
+export function isLocationQuestion(text: string): boolean {
+  return LOCATION_QUESTION.test(text.toLowerCase());
+}
+
+// The resident's saved setting as an origin, or null when it names no known
+// street or the coordinates are outside Northstowe
+export function resolveUserLocation(location: UserLocation | undefined, data: Place[] = getPlaces()): PlaceOrigin | null {
+  if (!location) return null;
+
+  if (location.street) {
+    const street = findPlaceByName(location.street, data);
+    return street
+      ? { label: `${street.name} (the resident's street)`, point: placeCentre(street), source: 'street', placeId: street.id }
+      : null;
+  }
+
+  if (typeof location.lat === 'number' && typeof location.lon === 'number') {
+    const point = { lat: location.lat, lon: location.lon };
+    const inArea = data.some(place => distanceToPlace(point, place) <= MAX_ORIGIN_METRES);
+    return inArea ? { label: "the resident's current location", point, source: 'coordinates' } : null;
+  }
+
+  return null;
+}
+
+// The gazetteer entries that answer a "nearest", "how far" or "where is"
+// question, measured from a place named in it or from the resident's setting.
+// Returns null for questions that are not about locations.
+export function findPlacesForQuestion(
+  question: string,
+  location?: UserLocation,
+  data: Place[] = getPlaces()
+): PlacesContext | null {
+  if (data.length === 0 || !isLocationQuestion(question)) {
+    return null;
+  }
+
+  const categories = detectPlaceCategories(question);
+  const named = findNamedPlaces(question, data);
+  const userOrigin = resolveUserLocation(location, data);
+  const outsideArea = !userOrigin && !!location && !location.street && location.lat !== undefined;
+
+  // "closest bus stop to Heron Road" measures from Heron Road; with no
+  // category, "how far is the Cabin from Heron Road" measures from the place
+  // after "from" and otherwise from the resident
+  const fromIndex = question.toLowerCase().search(/\bfrom\b/);
+  const originPlace = categories.length > 0
+    ? named.filter(item => categories.indexOf(item.place.category) === -1)[0]
+    : named.length > 1 && fromIndex !== -1 ? named.filter(item => item.index >= fromIndex)[0] : undefined;
+  const origin: PlaceOrigin | null = originPlace
+    ? { label: originPlace.place.name, point: placeCentre(originPlace.place), source: 'question', placeId: originPlace.place.id }
+    : userOrigin;
+
+  let matches: PlaceMatch[];
+  if (categories.length > 0) {
+    matches = data
+      .filter(place => categories.indexOf(place.category) !== -1 && (!origin || place.id !== origin.placeId))
+      .map(place => measureFrom(origin && origin.point, place));
+    if (origin) {
+      matches.sort((a, b) => a.metres! - b.metres!);
+    }
+    matches = matches.slice(0, MAX_MATCHES);
+  } else {
+    matches = named
+      .filter(item => !origin || item.place.id !== origin.placeId)
+      .map(item => measureFrom(origin && origin.point, item.place));
+  }
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return { origin, outsideArea, categories, matches };
+}
+
+function formatDistance(metres: number): string {
+  return metres < 1000 ? `${Math.round(metres / 10) * 10} m` : `${(metres / 1000).toFixed(1)} km`;
+}
+
+export function formatPlacesForPrompt(context: PlacesContext): string {
+  const lines = context.matches.map(match => {
+    const details = [PLACE_CATEGORIES[match.place.category]];
+    if (match.place.address) details.push(match.place.address);
+    if (match.place.postcode) details.push(match.place.postcode);
+    const distance = match.metres !== undefined
+      ? `: ${formatDistance(match.metres)} in a straight line, about ${match.walkMinutes} min walk or ${match.cycleMinutes} min by bike`
+      : '';
+    return `- ${match.place.name} (${details.join(', ')})${distance}`;
+  });
+
+  const from = context.origin
+    ? `Measured from ${context.origin.label}.`
+    : context.outsideArea
+      ? "The resident's location is outside Northstowe, so distances are not given."
+      : 'The resident has not shared a location, so distances are not given; they can set their street with the location button.';
+
+  return `${from}\n${lines.join('\n')}`;
+}
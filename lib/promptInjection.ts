@@ -0,0 +1,69 @@
+export interface InjectionCheck {
+  detected: boolean;
+  pattern?: string; // name of the first matching pattern, for logs
+}
+
+// Common attempts to override the system prompt, pull it out, or smuggle in
+// chat-template role markers. Matched against cleaned, single-spaced text.
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+  {
+    name: 'ignore-instructions',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,20}\b(previous|prior|above|earlier|preceding|system|your)\b.{0,20}\b(instructions?|prompts?|rules|guidelines|directions|messages)\b/i
+  },
+  {
+    name: 'reveal-prompt',
+    pattern: /\b(reveal|show|print|repeat|output|display|tell me|what (is|are|were))\b.{0,30}\b((system|initial|original|hidden) prompt|(your|system|initial|original|hidden) (instructions|rules))\b/i
+  },
+  {
+    name: 'role-override',
+    pattern: /\b(you are now (a|an|in)|from now on,? you|pretend (to be|you are)|new (instructions|rules|persona)\s*:|roleplay as)\b/i
+  },
+  {
+    name: 'jailbreak',
+    pattern: /\b(jailbreak|dan mode|developer mode|do anything now|unfiltered mode)\b/i
+  },
+  // Polish and Romanian versions of the above, for the languages the chat
+  // answers in. \b only knows a-z, so words ending in ą, ć, ș... are not bounded.
+  {
+    name: 'ignore-instructions',
+    pattern: /(zignoruj|ignoruj|zapomnij|pomiń|nie zważaj na)\s.{0,30}(poprzedni|wcześniejsz|powyższ|systemow|swoje|twoje).{0,30}(instrukcj|poleceni|zasad|reguł|wiadomoś)/i
+  },
+  {
+    name: 'ignore-instructions',
+    pattern: /(ignor[ăa]|uit[ăa]|nu ține cont de|nu tine cont de)\s.{0,30}(instruc[țţt]iuni|reguli|comenzi|mesaje).{0,30}(anterioare|precedente|de mai sus|sistem|tale)/i
+  },
+  {
+    name: 'reveal-prompt',
+    pattern: /(pokaż|wyświetl|ujawnij|powtórz|wypisz|podaj|jaki jest|jakie są).{0,30}(prompt|(systemow\w* )?(instrukcj\w*|poleceni\w*) systemow|swoje instrukcje|twoje instrukcje)/i
+  },
+  {
+    name: 'reveal-prompt',
+    pattern: /(arat[ăa]|afi[șşs]eaz[ăa]|dezv[ăa]luie|repet[ăa]|spune-mi|care (este|sunt)).{0,30}(prompt|instruc[țţt]iunile (tale|de sistem|sistemului|ini[țţt]iale)|regulile tale)/i
+  },
+  {
+    name: 'role-override',
+    pattern: /(od teraz jesteś|od teraz będziesz|udawaj,? że jesteś|wciel się w|nowe (instrukcje|zasady)\s*:)/i
+  },
+  {
+    name: 'role-override',
+    pattern: /(de acum (înainte |inainte )?(ești|esti|vei fi)|pretinde că (ești|esti)|pretinde ca esti|prefă-te că|prefa-te ca|joacă rolul|joaca rolul|(instruc[țţt]iuni|reguli) noi\s*:)/i
+  },
+  {
+    name: 'role-marker',
+    pattern: /(^|\s)(system|assistant|developer)\s*:|<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|<<\/?SYS>>|<\/?(system|think)>|#{2,}\s*(instruction|system)/i
+  }
+];
+
+// Chat-template tokens, and role labels at the start of a line ("\nSystem:"),
+// that make text look like a new turn or a new part of the prompt
+const ROLE_TOKENS = /<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|<<\/?SYS>>|<\/?(system|think)>/gi;
+const ROLE_LINES = /(^|\n)[\s#>*]*(system|assistant|user|developer|human)\s*:/gi;
+
+export function stripRoleMarkers(text: string): string {
+  return text.replace(ROLE_TOKENS, ' ').replace(ROLE_LINES, ' ').trim();
+}
+
+export function detectPromptInjection(text: string): InjectionCheck {
+  const match = INJECTION_PATTERNS.find(entry => entry.pattern.test(text));
+  return match ? { detected: true, pattern: match.name } : { detected: false };
+}
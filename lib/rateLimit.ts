@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import type { ServerResponse } from 'http';
+import { logger } from '@/lib/logger';
+import { rateLimitHits } from '@/lib/metrics';
+
+export interface RateLimitPolicy {
+  limit: number; // requests per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // epoch ms when the oldest counted request leaves the window
+}
+
+// Stores keep a log of request timestamps per key. Implementations only need
+// to persist them; the sliding-window logic lives in checkRateLimit.
+export interface RateLimitStore {
+  getHits(key: string): Promise<number[]>;
+  setHits(key: string, hits: number[], expiresAt: number): Promise<void>;
+  // Optional readiness check for /api/health; rejects when the store can't be used
+  check?(): Promise<void>;
+}
+
+// Per-route policies. Override with RATE_LIMIT_<ROUTE>="<limit>/<seconds>",
+// e.g. RATE_LIMIT_CHAT="10/600".
+const DEFAULT_POLICIES: Record<string, RateLimitPolicy> = {
+  chat: { limit: 5, windowMs: 5 * 60 * 1000 }, // 5 requests per 5 minutes
+  bins: { limit: 30, windowMs: 60 * 1000 }, // 30 lookups per minute
+  feedback: { limit: 20, windowMs: 60 * 1000 }, // 20 ratings per minute
+  places: { limit: 30, windowMs: 60 * 1000 }, // 30 lookups per minute
+  subscriptions: { limit: 10, windowMs: 60 * 60 * 1000 }, // 10 sign-ups per hour, since each can send an email
+  widget: { limit: 50, windowMs: 24 * 60 * 60 * 1000 }, // 50 widget questions per visitor a day, so one can't use up a site's quota
+};
+
+const FALLBACK_POLICY: RateLimitPolicy = { limit: 30, windowMs: 60 * 1000 };
+
+const SWEEP_INTERVAL = 60 * 1000; // 1 minute in milliseconds
+const FILE_WRITE_DELAY = 1000;
+
+export function getRateLimitPolicy(route: string): RateLimitPolicy {
+  const override = process.env[`RATE_LIMIT_${route.toUpperCase()}`];
+  if (override) {
+    const match = override.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+    if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+      return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+    }
+    logger.warn('rate_limit_policy_invalid', { variable: `RATE_LIMIT_${route.toUpperCase()}`, value: override });
+  }
+
+  return DEFAULT_POLICIES[route] || FALLBACK_POLICY;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  protected entries = new Map<string, { hits: number[]; expiresAt: number }>();
+  private lastSweep = 0;
+
+  async getHits(key: string): Promise<number[]> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return [];
+    }
+    return entry.hits.slice();
+  }
+
+  async setHits(key: string, hits: number[], expiresAt: number): Promise<void> {
+    this.entries.set(key, { hits, expiresAt });
+    this.sweep();
+    this.changed();
+  }
+
+  // Evict keys whose window has passed so the map doesn't grow forever
+  protected sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+
+    const expired: string[] = [];
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        expired.push(key);
+      }
+    });
+    expired.forEach(key => this.entries.delete(key));
+  }
+
+  protected changed(): void {}
+}
+
+// Keeps the memory store's behaviour but mirrors it to a JSON file, so limits
+// survive restarts. Writes are batched; multiple instances need a shared store.
+export class FileRateLimitStore extends MemoryRateLimitStore {
+  private writeTimer: NodeJS.Timeout | null = null;
+  private lastSaveError: string | null = null;
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const now = Date.now();
+      Object.keys(saved).forEach(key => {
+        const entry = saved[key];
+        if (entry && Array.isArray(entry.hits) && entry.expiresAt > now) {
+          this.entries.set(key, { hits: entry.hits, expiresAt: entry.expiresAt });
+        }
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('rate_limit_store_load_failed', { error });
+      }
+    }
+  }
+
+  protected changed(): void {
+    if (this.writeTimer) {
+      return;
+    }
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.save();
+    }, FILE_WRITE_DELAY);
+  }
+
+  private save(): void {
+    const snapshot: Record<string, { hits: number[]; expiresAt: number }> = {};
+    this.entries.forEach((entry, key) => {
+      snapshot[key] = entry;
+    });
+
+    // Write to a temp file and rename so a crash never leaves half a file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+      .then(() => fs.promises.writeFile(tempPath, JSON.stringify(snapshot)))
+      .then(() => fs.promises.rename(tempPath, this.filePath))
+      .then(() => {
+        this.lastSaveError = null;
+      })
+      .catch(error => {
+        this.lastSaveError = error instanceof Error ? error.message : String(error);
+        logger.error('rate_limit_store_save_failed', { error });
+      });
+  }
+
+  async check(): Promise<void> {
+    const dir = path.dirname(this.filePath);
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.access(dir, fs.constants.W_OK);
+    if (this.lastSaveError) {
+      throw new Error(`Last save failed: ${this.lastSaveError}`);
+    }
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE=memory (default) or file; RATE_LIMIT_FILE sets the path
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'file'
+      ? new FileRateLimitStore(process.env.RATE_LIMIT_FILE || path.join(process.cwd(), '.data', 'rate-limits.json'))
+      : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+// Sliding-window log: a request is allowed when fewer than `limit` requests
+// were counted in the last `windowMs`. Rejected requests are not counted.
+// `policy` replaces the route's for limits set per client, e.g. per API key.
+export async function checkRateLimit(
+  route: string,
+  clientKey: string,
+  now: number = Date.now(),
+  policy: RateLimitPolicy = getRateLimitPolicy(route)
+): Promise<RateLimitResult> {
+  const rateLimitStore = getRateLimitStore();
+  const key = `${route}:${clientKey}`;
+
+  const hits = (await rateLimitStore.getHits(key)).filter(time => time > now - policy.windowMs);
+
+  if (hits.length >= policy.limit) {
+    rateLimitHits.inc({ route });
+    return {
+      limited: true,
+      limit: policy.limit,
+      remaining: 0,
+      resetTime: hits[hits.length - policy.limit] + policy.windowMs
+    };
+  }
+
+  hits.push(now);
+  await rateLimitStore.setHits(key, hits, now + policy.windowMs);
+
+  return {
+    limited: false,
+    limit: policy.limit,
+    remaining: policy.limit - hits.length,
+    resetTime: hits[0] + policy.windowMs
+  };
+}
+
+// The same result as checkRateLimit but without counting a request, for
+// answers that cost nothing upstream
+export async function peekRateLimit(
+  route: string,
+  clientKey: string,
+  now: number = Date.now(),
+  policy: RateLimitPolicy = getRateLimitPolicy(route)
+): Promise<RateLimitResult> {
+  const hits = (await getRateLimitStore().getHits(`${route}:${clientKey}`))
+    .filter(time => time > now - policy.windowMs);
+
+  return {
+    limited: hits.length >= policy.limit,
+    limit: policy.limit,
+    remaining: Math.max(0, policy.limit - hits.length),
+    resetTime: hits.length >= policy.limit
+      ? hits[hits.length - policy.limit] + policy.windowMs
+      : (hits.length > 0 ? hits[0] + policy.windowMs : now)
+  };
+}
+
+// Standard RateLimit-* headers (IETF draft, reset as delta seconds), plus
+// Retry-After when the request was rejected
+export function setRateLimitHeaders(
+  res: ServerResponse,
+  result: RateLimitResult,
+  now: number = Date.now()
+): void {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - now) / 1000));
+
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', resetSeconds);
+
+  if (result.limited) {
+    res.setHeader('Retry-After', resetSeconds);
+  }
+}
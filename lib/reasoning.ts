@@ -0,0 +1,51 @@
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface ReasoningSplit {
+  answer: string;
+  reasoning: string;
+  isThinking: boolean; // the reasoning block is still open (streaming)
+}
+
+// Drop a trailing fragment that could be the start of `tag`, e.g. "</thi",
+// so half-received tags never leak into the visible text.
+function stripPartialTag(text: string, tag: string): string {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) {
+      return text.slice(0, text.length - length);
+    }
+  }
+  return text;
+}
+
+// sonar-reasoning prefixes its answer with <think>...</think>. Splits the two
+// apart; safe to call on a partial stream, where each call's answer and
+// reasoning are prefixes of the next call's.
+export function splitReasoning(content: string): ReasoningSplit {
+  const leading = content.replace(/^\s+/, '');
+
+  if (!leading.startsWith(OPEN_TAG)) {
+    if (OPEN_TAG.startsWith(leading)) {
+      // Nothing yet, or only part of the opening tag
+      return { answer: '', reasoning: '', isThinking: leading.length > 0 };
+    }
+    return { answer: content, reasoning: '', isThinking: false };
+  }
+
+  const body = leading.slice(OPEN_TAG.length);
+  const closeAt = body.indexOf(CLOSE_TAG);
+
+  if (closeAt === -1) {
+    return {
+      answer: '',
+      reasoning: stripPartialTag(body, CLOSE_TAG).trim(),
+      isThinking: true
+    };
+  }
+
+  return {
+    answer: body.slice(closeAt + CLOSE_TAG.length).replace(/^\s+/, ''),
+    reasoning: body.slice(0, closeAt).trim(),
+    isThinking: false
+  };
+}
@@ -0,0 +1,109 @@
+import type { Citation } from '@/lib/citations';
+
+export interface CachedAnswer {
+  key: string;
+  query: string; // the question as first asked
+  intentId: string;
+  response: string;
+  reasoning?: string;
+  citations: Citation[];
+  model?: string; // "<provider>:<model>" that wrote the answer
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+export interface CachePurgeFilter {
+  key?: string;
+  intentId?: string;
+  query?: string; // matches entries whose normalised question contains this text
+}
+
+const cache = new Map<string, CachedAnswer>();
+const MAX_CACHED_ANSWERS = 500;
+
+// Anything but letters (in any script), digits and spaces. Built from a string
+// because the es5 target rejects the u flag on regex literals.
+const PUNCTUATION = new RegExp('[^\\p{L}\\p{M}\\p{N}\\s]', 'gu');
+
+// "When is the GP surgery opening?" and "when is the gp surgery opening" are the
+// same question. Letters in every script are kept, so questions in Ukrainian
+// or Polish don't collapse into the same key.
+export function normalizeQuery(query: string): string {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The enhanced query is the intent's template with request-time dates filled
+// in, so keying on it stops an answer about "this week" outliving that week.
+// The question itself is taken out of it so only its normalised form counts.
+export function buildCacheKey(query: string, enhancedQuery: string): string {
+  return `${normalizeQuery(query)}|${normalizeQuery(enhancedQuery.split(query).join(' '))}`;
+}
+
+export function getCachedAnswer(key: string, now: number = Date.now()): CachedAnswer | null {
+  const entry = cache.get(key);
+  if (!entry) {
+    return null;
+  }
+
+  if (entry.expiresAt <= now) {
+    cache.delete(key);
+    return null;
+  }
+
+  entry.hits++;
+  return entry;
+}
+
+export function cacheAnswer(
+  key: string,
+  answer: Pick<CachedAnswer, 'query' | 'intentId' | 'response' | 'reasoning' | 'citations' | 'model'>,
+  ttlSeconds: number,
+  now: number = Date.now()
+): void {
+  if (ttlSeconds <= 0) {
+    return;
+  }
+
+  cache.delete(key);
+  cache.set(key, { ...answer, key, createdAt: now, expiresAt: now + ttlSeconds * 1000, hits: 0 });
+
+  // Maps iterate in insertion order, so the first key is the oldest answer
+  if (cache.size > MAX_CACHED_ANSWERS) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) {
+      cache.delete(oldestKey);
+    }
+  }
+}
+
+export function listCachedAnswers(now: number = Date.now()): CachedAnswer[] {
+  const entries: CachedAnswer[] = [];
+  cache.forEach(entry => {
+    if (entry.expiresAt > now) {
+      entries.push(entry);
+    }
+  });
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Removes matching entries (every entry when the filter is empty) and returns how many went
+export function purgeCachedAnswers(filter: CachePurgeFilter = {}): number {
+  const query = filter.query ? normalizeQuery(filter.query) : '';
+  const keys: string[] = [];
+
+  cache.forEach((entry, key) => {
+    if (filter.key && key !== filter.key) return;
+    if (filter.intentId && entry.intentId !== filter.intentId) return;
+    if (query && normalizeQuery(entry.query).indexOf(query) === -1) return;
+    keys.push(key);
+  });
+
+  keys.forEach(key => cache.delete(key));
+  return keys.length;
+}
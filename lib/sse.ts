@@ -0,0 +1,52 @@
+import type { ServerResponse } from 'http';
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+export function startSseResponse(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    // no-transform stops the compression middleware from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+}
+
+export function writeSseEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Incremental parser for a text/event-stream body. Works on both the upstream
+// Perplexity stream (server) and the /api/chat stream (browser). Feed it decoded
+// text chunks; it calls onEvent for every complete event.
+export function createSseParser(onEvent: (event: SseEvent) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      });
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: dataLines.join('\n') });
+      }
+    }
+  };
+}
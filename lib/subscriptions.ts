@@ -0,0 +1,331 @@
+import path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { createJsonFileStore } from '@/lib/jsonFileStore';
+import { lookupAddress } from '@/lib/bins';
+import type { ApiErrorCode } from '@/lib/apiErrors';
+import { DEFAULT_LOCALE, Locale, isLocale } from '@/lib/i18n';
+
+// Residents opt in to reminders about their bins, council meetings and
+// announcements, by web push to one browser or by an email digest. Each
+// subscription has a secret token that stands in for an account: it is in
+// every email's links, and the subscribing browser keeps it for push.
+export type NotificationTopic = 'bins' | 'meetings' | 'announcements';
+export type NotificationChannel = 'push' | 'email';
+
+export const NOTIFICATION_TOPICS: NotificationTopic[] = ['bins', 'meetings', 'announcements'];
+
+// The browser's PushSubscription.toJSON()
+export interface PushTarget {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface Subscription {
+  id: string;
+  token: string;
+  channel: NotificationChannel;
+  email?: string;
+  push?: PushTarget;
+  topics: NotificationTopic[];
+  street?: string; // a street on a bin round, needed for bin reminders
+  locale: Locale;
+  // Email addresses are confirmed from a link before anything else is sent
+  confirmed: boolean;
+  createdAt: string;
+  updatedAt: string;
+  sent: Record<string, string>; // notification key -> when it was sent
+  client?: string; // hash of the IP that subscribed, to cap push subscriptions per client
+}
+
+export interface SubscriptionInput {
+  channel: NotificationChannel;
+  email?: string;
+  push?: PushTarget;
+  topics: NotificationTopic[];
+  street?: string;
+  locale: Locale;
+}
+
+export type PreferencesInput = Pick<SubscriptionInput, 'topics' | 'street' | 'locale'>;
+
+export type SubscriptionValidation<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: ApiErrorCode; error: string; field: string };
+
+interface SubscriptionsFile {
+  subscriptions: Subscription[];
+}
+
+const MAX_EMAIL_LENGTH = 254;
+const MAX_ENDPOINT_LENGTH = 2000;
+const EMAIL_PATTERN = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+\.[^\s@<>()",;:]+$/;
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+=*$/;
+// A household or a mobile network can put many browsers behind one IP
+const MAX_PUSH_SUBSCRIPTIONS_PER_CLIENT = 20;
+
+// The push services of Chrome, Firefox, Edge and Safari. Endpoints elsewhere are
+// refused, so a made-up subscription can't have the reminder job post to an
+// internal address. PUSH_SERVICE_HOSTS replaces the list.
+const DEFAULT_PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com'
+];
+
+// SUBSCRIPTIONS_FILE sets the path; the default sits beside the other stores
+const store = createJsonFileStore<SubscriptionsFile>(
+  'subscriptions',
+  () => process.env.SUBSCRIPTIONS_FILE || path.join(process.cwd(), '.data', 'subscriptions.json'),
+  () => ({ subscriptions: [] })
+);
+
+function validatePreferences(raw: Record<string, unknown>): SubscriptionValidation<PreferencesInput> {
+  const topics = Array.isArray(raw.topics) ? raw.topics : [];
+  if (topics.length === 0) {
+    return { ok: false, code: 'TOPICS_REQUIRED', error: 'topics must not be empty', field: 'topics' };
+  }
+  if (topics.some(topic => NOTIFICATION_TOPICS.indexOf(topic) === -1)) {
+    return { ok: false, code: 'INVALID_REQUEST', error: `topics must be a list of ${NOTIFICATION_TOPICS.join(', ')}`, field: 'topics' };
+  }
+  const uniqueTopics = NOTIFICATION_TOPICS.filter(topic => topics.indexOf(topic) !== -1);
+
+  // Stored as the bin list spells it, so reminders find the round later
+  let street: string | undefined;
+  if (raw.street !== undefined && raw.street !== null && raw.street !== '') {
+    const lookup = typeof raw.street === 'string' && raw.street.length <= 100 ? lookupAddress(raw.street) : null;
+    if (!lookup) {
+      return { ok: false, code: 'UNKNOWN_STREET', error: 'street must be a Northstowe street on a bin round', field: 'street' };
+    }
+    street = lookup.street.street;
+  }
+  if (uniqueTopics.indexOf('bins') !== -1 && !street) {
+    return { ok: false, code: 'STREET_REQUIRED', error: 'street is required for bin reminders', field: 'street' };
+  }
+
+  if (raw.locale !== undefined && !isLocale(raw.locale)) {
+    return { ok: false, code: 'INVALID_REQUEST', error: 'locale is not supported', field: 'locale' };
+  }
+
+  return { ok: true, value: { topics: uniqueTopics, street, locale: isLocale(raw.locale) ? raw.locale : DEFAULT_LOCALE } };
+}
+
+function getPushServiceHosts(): string[] {
+  const configured = (process.env.PUSH_SERVICE_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_PUSH_SERVICE_HOSTS;
+}
+
+// An https URL on the default port at one of the push service hosts or a subdomain
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch (error) {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  return getPushServiceHosts().some(allowed => host === allowed || host.slice(-allowed.length - 1) === `.${allowed}`);
+}
+
+function validatePushTarget(value: unknown): PushTarget | null {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const keys = (raw.keys && typeof raw.keys === 'object' ? raw.keys : {}) as Record<string, unknown>;
+  const { endpoint } = raw;
+  const { p256dh, auth } = keys;
+  if (
+    typeof endpoint !== 'string' ||
+    endpoint.length > MAX_ENDPOINT_LENGTH ||
+    !isPushServiceEndpoint(endpoint) ||
+    typeof p256dh !== 'string' || !BASE64URL_PATTERN.test(p256dh) ||
+    typeof auth !== 'string' || !BASE64URL_PATTERN.test(auth)
+  ) {
+    return null;
+  }
+  return { endpoint, keys: { p256dh, auth } };
+}
+
+// The IP itself isn't kept
+function hashClient(clientIp: string): string {
+  return createHash('sha256').update(clientIp).digest('hex').slice(0, 32);
+}
+
+export function validateSubscription(body: unknown): SubscriptionValidation<SubscriptionInput> {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (raw.channel !== 'push' && raw.channel !== 'email') {
+    return { ok: false, code: 'INVALID_REQUEST', error: 'channel must be "push" or "email"', field: 'channel' };
+  }
+
+  let email: string | undefined;
+  let push: PushTarget | undefined;
+  if (raw.channel === 'email') {
+    email = typeof raw.email === 'string' ? raw.email.trim().toLowerCase() : '';
+    if (!email || email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) {
+      return { ok: false, code: 'INVALID_EMAIL', error: 'email must be an email address', field: 'email' };
+    }
+  } else {
+    push = validatePushTarget(raw.push) || undefined;
+    if (!push) {
+      return { ok: false, code: 'INVALID_REQUEST', error: 'push must be a browser push subscription with keys and an endpoint at a browser push service', field: 'push' };
+    }
+  }
+
+  const preferences = validatePreferences(raw);
+  if (!preferences.ok) {
+    return preferences;
+  }
+  return { ok: true, value: { ...preferences.value, channel: raw.channel, email, push } };
+}
+
+export function validatePreferencesUpdate(body: unknown): SubscriptionValidation<PreferencesInput> {
+  return validatePreferences((body && typeof body === 'object' ? body : {}) as Record<string, unknown>);
+}
+
+export function listSubscriptions(): Subscription[] {
+  return store.get().subscriptions.slice();
+}
+
+export function getSubscriptionByToken(token: string): Subscription | null {
+  if (!token) {
+    return null;
+  }
+  return store.get().subscriptions.filter(subscription => subscription.token === token)[0] || null;
+}
+
+// One subscription per browser or address: subscribing again replaces the
+// preferences but keeps the token and what has already been sent. Anyone can
+// type an address, so a confirmed email subscription is left as it is; its
+// owner changes it from the link in their emails. Returns null when the
+// client already has MAX_PUSH_SUBSCRIPTIONS_PER_CLIENT browsers subscribed.
+export function saveSubscription(
+  input: SubscriptionInput,
+  clientIp: string,
+  now: number = Date.now()
+): { subscription: Subscription; created: boolean } | null {
+  const timestamp = new Date(now).toISOString();
+  const subscriptions = store.get().subscriptions;
+  const existing = subscriptions.filter(subscription => input.channel === 'email'
+    ? subscription.email === input.email
+    : !!subscription.push && !!input.push && subscription.push.endpoint === input.push.endpoint)[0];
+
+  if (existing && existing.channel === 'email' && existing.confirmed) {
+    return { subscription: existing, created: false };
+  }
+  if (existing) {
+    existing.topics = input.topics;
+    existing.street = input.street;
+    existing.locale = input.locale;
+    existing.push = input.push || existing.push;
+    existing.updatedAt = timestamp;
+    store.save();
+    return { subscription: existing, created: false };
+  }
+
+  const client = hashClient(clientIp);
+  if (input.channel === 'push' &&
+    subscriptions.filter(subscription => subscription.channel === 'push' && subscription.client === client).length >= MAX_PUSH_SUBSCRIPTIONS_PER_CLIENT) {
+    return null;
+  }
+
+  const subscription: Subscription = {
+    ...input,
+    id: randomUUID(),
+    token: randomBytes(24).toString('base64').replace(/\+/g, '-').replace(/\//g, '_'),
+    // The browser granting permission is the opt-in for push
+    confirmed: input.channel === 'push',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    sent: {},
+    client
+  };
+  subscriptions.push(subscription);
+  store.save();
+  return { subscription, created: true };
+}
+
+export function updatePreferences(token: string, input: PreferencesInput, now: number = Date.now()): Subscription | null {
+  const subscription = getSubscriptionByToken(token);
+  if (!subscription) {
+    return null;
+  }
+  subscription.topics = input.topics;
+  subscription.street = input.street;
+  subscription.locale = input.locale;
+  subscription.updatedAt = new Date(now).toISOString();
+  store.save();
+  return subscription;
+}
+
+export function confirmSubscription(token: string, now: number = Date.now()): Subscription | null {
+  const subscription = getSubscriptionByToken(token);
+  if (!subscription) {
+    return null;
+  }
+  if (!subscription.confirmed) {
+    subscription.confirmed = true;
+    subscription.updatedAt = new Date(now).toISOString();
+    store.save();
+  }
+  return subscription;
+}
+
+export function deleteSubscription(token: string): Subscription | null {
+  const subscription = getSubscriptionByToken(token);
+  if (!subscription) {
+    return null;
+  }
+  removeSubscription(subscription.id);
+  return subscription;
+}
+
+// Also used when a push service says the browser has gone
+export function removeSubscription(id: string): void {
+  const data = store.get();
+  data.subscriptions = data.subscriptions.filter(subscription => subscription.id !== id);
+  store.save();
+}
+
+// Remembers which reminders went out, forgetting those older than `keepDays`
+// so the file doesn't grow forever
+export function markSent(id: string, keys: string[], now: number = Date.now(), keepDays: number = 60): void {
+  const subscription = store.get().subscriptions.filter(candidate => candidate.id === id)[0];
+  if (!subscription) {
+    return;
+  }
+
+  const timestamp = new Date(now).toISOString();
+  const cutoff = new Date(now - keepDays * 24 * 60 * 60 * 1000).toISOString();
+  const sent: Record<string, string> = {};
+  Object.keys(subscription.sent).forEach(key => {
+    if (subscription.sent[key] >= cutoff) {
+      sent[key] = subscription.sent[key];
+    }
+  });
+  keys.forEach(key => {
+    sent[key] = timestamp;
+  });
+  subscription.sent = sent;
+  store.save();
+}
+
+// What the preferences API returns: never the push keys or the token
+export function describeSubscription(subscription: Subscription) {
+  return {
+    id: subscription.id,
+    channel: subscription.channel,
+    email: subscription.email,
+    topics: subscription.topics,
+    street: subscription.street,
+    locale: subscription.locale,
+    confirmed: subscription.confirmed,
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt
+  };
+}
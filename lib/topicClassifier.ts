@@ -0,0 +1,316 @@
+import { LlmTarget, completeChat, getLlmChain } from '@/lib/llm';
+import { logger } from '@/lib/logger';
+import type { Locale } from '@/lib/i18n';
+
+export interface TopicFeature {
+  name: string;
+  weight: number;
+  patterns: RegExp[];
+  // Extra patterns for questions asked with another locale chosen. Like the
+  // English ones they match the folded text: lower case, no diacritics.
+  localized?: Partial<Record<Locale, RegExp[]>>;
+  requiresHistory?: boolean; // only counts once a conversation is under way
+}
+
+export interface TopicContext {
+  hasHistory: boolean;
+  locale?: Locale;
+}
+
+export interface TopicDecision {
+  related: boolean;
+  score: number;
+  threshold: number;
+  rule: string; // what decided the outcome, for logs
+  features: { name: string; weight: number }[];
+}
+
+// Each feature counts once, however many of its patterns match. Positive
+// weights are evidence the question is about Northstowe; negative weights
+// mark requests we should refuse even if they mention a local word.
+export const TOPIC_FEATURES: TopicFeature[] = [
+  { name: 'place:northstowe', weight: 5, patterns: [/\bnorth\s?stowe\b/] },
+  {
+    name: 'place:landmark',
+    weight: 3,
+    patterns: [
+      /\bthe cabin\b/, /\bunity (centre|center)\b/, /\bguided busway\b/, /\bbusway\b/,
+      /\bpathfinder\b/, /\bgatehouse school\b/, /\bheron road\b/, /\bstone hill\b/,
+      /\bhomes england\b/, /\bsports hub\b/, /\bweirs drove\b/
+    ]
+  },
+  {
+    name: 'place:nearby',
+    weight: 2,
+    patterns: [/\b(longstanton|oakington|willingham|rampton|swavesey|histon|bar hill|st ives)\b/]
+  },
+  { name: 'place:county', weight: 1, patterns: [/\bcambridge(shire)?\b/, /\b(south )?cambs\b/, /\bscambs\b/] },
+  {
+    name: 'service:council',
+    weight: 2,
+    patterns: [/\btown council\b/, /\bcouncill?ors?\b/, /\bcouncil (meeting|tax)\b/, /\bagenda\b/, /\bminutes\b/],
+    localized: {
+      pl: [/\brad(a|y|zie|e) miasta\b/, /\bradn(y|ych|ego|i)\b/, /\bposiedzen/, /\bprotokol/],
+      ro: [/\bconsiliu(l|lui)? (local|orasului)\b/, /\bconsilier/, /\bsedint/, /\bprocese? verbale?\b/]
+    }
+  },
+  {
+    name: 'service:waste',
+    weight: 2,
+    patterns: [/\bbins?\b/, /\brecycl(e|ing)\b/, /\brubbish\b/, /\bwaste\b/, /\brefuse\b/, /\bcollection day\b/],
+    localized: {
+      pl: [/\bsmieci/, /\bodpad/, /\bkosz(e|a|y|ow)?\b/, /\bwywoz/, /\brecykling/],
+      ro: [/\bgunoi/, /\bdeseuri/, /\breciclare\b/, /\bpubel/, /\bcolectare/]
+    }
+  },
+  {
+    name: 'service:health',
+    weight: 1.5,
+    patterns: [/\bgp\b/, /\bdoctors?\b/, /\bsurgery\b/, /\bpharmac(y|ies)\b/, /\bdentists?\b/, /\bclinic\b/, /\bhealth (centre|center)\b/],
+    localized: {
+      pl: [/\blekarz/, /\bprzychodni/, /\baptek/, /\bdentyst/, /\bosrod(ek|ka) zdrowia\b/],
+      ro: [/\bmedic/, /\bdoctor/, /\bfarmaci/, /\bdentist/, /\bclinic/, /\bcabinet(ul)? medical\b/]
+    }
+  },
+  {
+    name: 'service:education',
+    weight: 1.5,
+    patterns: [/\bschools?\b/, /\bnurser(y|ies)\b/, /\bpre-?school\b/, /\bcollege\b/, /\bsixth form\b/],
+    localized: {
+      pl: [/\bszkol/, /\bprzedszkol/, /\bzlob(ek|ka)\b/, /\bliceum\b/],
+      ro: [/\bscoal/, /\bgradinit/, /\bliceu/, /\bcres(a|e)\b/]
+    }
+  },
+  {
+    name: 'service:transport',
+    weight: 1.5,
+    patterns: [/\bbus(es)?\b/, /\bbus stops?\b/, /\bcycle (path|route|lane)s?\b/, /\bparking\b/, /\bpark and ride\b/, /\broad ?works\b/, /\broad closures?\b/],
+    localized: {
+      pl: [/\bautobus/, /\bprzystan/, /\bparking/, /\bsciezk(a|i|e) rowerow/, /\bobjazd/, /\bzamkniec(ie|ia) drog/],
+      ro: [/\bautobuz/, /\bstati(a|e) de autobuz\b/, /\bparcare\b/, /\bpist(a|e) de biciclete\b/, /\bdrum(ul)? inchis\b/]
+    }
+  },
+  {
+    name: 'service:amenities',
+    weight: 1.5,
+    patterns: [
+      /\bshops?\b/, /\bsupermarkets?\b/, /\btesco\b/, /\blibrary\b/, /\bcommunity (centre|center|hub)\b/,
+      /\bplaygrounds?\b/, /\bparks?\b/, /\ballotments?\b/, /\bpubs?\b/, /\bcaf(e|é)s?\b/, /\bpost office\b/,
+      /\bleisure\b/, /\bsports? (pitch|pitches|club|facilities)\b/, /\bchurch\b/
+    ],
+    localized: {
+      pl: [/\bsklep/, /\bbibliotek/, /\bplac(u|e|ow)? zabaw\b/, /\bpark(u|i|ow)?\b/, /\bpoczt/, /\bkosciol/, /\bkawiarni/],
+      ro: [/\bmagazin/, /\bbibliotec/, /\bloc(ul|uri)? de joaca\b/, /\bparc(ul|uri)?\b/, /\bposta\b/, /\bbiseric/, /\bcafenea\b/]
+    }
+  },
+  {
+    name: 'service:community',
+    weight: 1.5,
+    patterns: [/\bcommunity\b/, /\bevents?\b/, /\bclubs?\b/, /\bvolunteer/, /\bresidents'? association\b/, /\bneighbou?rhood\b/],
+    localized: {
+      pl: [/\bspolecznosc/, /\bwydarzen/, /\bklub/, /\bwolontari/, /\bsasied/, /\bmieszkanc/],
+      ro: [/\bcomunitat/, /\beveniment/, /\bclub/, /\bvoluntar/, /\bvecin/, /\blocuitori\b/]
+    }
+  },
+  {
+    name: 'service:development',
+    weight: 1.5,
+    patterns: [/\bhousing\b/, /\bdevelopment\b/, /\bplanning\b/, /\bconstruction\b/, /\bphase \d\b/, /\bnew homes\b/, /\bbuilding work\b/],
+    localized: {
+      pl: [/\bbudow/, /\bosiedl/, /\bnowe domy\b/, /\bmieszkani(a|e)\b/],
+      ro: [/\bconstructi/, /\blocuint/, /\bdezvoltare\b/, /\bcartier/, /\bcase noi\b/]
+    }
+  },
+  {
+    name: 'service:emergency',
+    weight: 1,
+    patterns: [/\bpolice\b/, /\bfire station\b/, /\bambulance\b/, /\bdefibrillator\b/],
+    localized: {
+      pl: [/\bpolicj/, /\bstraz(y)? pozarn/, /\bkaretk/, /\bdefibrylator/],
+      ro: [/\bpolitie/, /\bpompieri/, /\bambulant/, /\bdefibrilator/]
+    }
+  },
+  {
+    name: 'intent:local-question',
+    weight: 1,
+    patterns: [/^(when|where|what time|how do i|how can i|is there|are there|who do i|can i|who should i)\b/],
+    localized: {
+      pl: [/^(kiedy|gdzie|o ktorej|jak mog|jak moz|czy jest|czy sa|czy mog|do kogo|kto)\b/],
+      ro: [/^(cand|unde|la ce ora|cum pot|cum se|exista|este|sunt|pot|cui|cine)\b/]
+    }
+  },
+  {
+    name: 'intent:opening',
+    weight: 0.5,
+    patterns: [/\b(open|opens|opening|close|closes|closing|hours|timetable|schedule)\b/],
+    localized: {
+      pl: [/\b(otwar|otwier|zamkn|zamyka|godzin|rozklad)/],
+      ro: [/\b(deschi|inchi|program|orar)/]
+    }
+  },
+  {
+    name: 'intent:nearby',
+    weight: 1,
+    patterns: [/\b(nearest|nearby|closest|locally|around here|in town|in the town|how far|walking distance)\b/],
+    localized: {
+      pl: [/\b(najblizsz|w poblizu|niedaleko|jak daleko|w miescie)/],
+      ro: [/\b(cel mai apropiat|cea mai apropiata|in apropiere|aproape|cat de departe|in oras)\b/]
+    }
+  },
+  {
+    name: 'context:follow-up',
+    weight: 2,
+    requiresHistory: true,
+    patterns: [/\b(it|its|that|this|they|there|them|those|these)\b/, /^(and|what about|how about|also|ok|thanks)\b/],
+    localized: {
+      pl: [/\b(to|tam|ten|ta|te|tego|tej|oni|one)\b/, /^(a|i|a co z|ok|dzieki|dziekuje)\b/],
+      ro: [/\b(asta|acesta|aceasta|acolo|el|ea|ei|ele)\b/, /^(si|dar|dar cu|ok|multumesc|mersi)\b/]
+    }
+  },
+  {
+    name: 'offtopic:task',
+    weight: -4,
+    patterns: [
+      /\b(write|compose|generate)\b.*\b(code|poem|essay|story|song|script|email|letter)\b/,
+      /\b(python|javascript|typescript|sql|regex)\b/, /\btranslate\b/, /\brecipes?\b/,
+      /\b(bitcoin|crypto|stock price|shares)\b/, /\b(homework|equation)\b/, /\bjokes?\b/,
+      /\bignore (all |the )?(previous|above)\b/
+    ],
+    localized: {
+      pl: [/\b(napisz|wygeneruj)\b.*\b(kod|wiersz|esej|opowiadanie|piosenk|list)/, /\b(przetlumacz|tlumacz)/, /\bprzepis(y)? na\b/, /\b(zart|kawal)/, /\bzignoruj\b/],
+      ro: [/\b(scrie|genereaza)\b.*\b(cod|poezie|eseu|poveste|cantec|scrisoare)/, /\btradu/, /\breteta\b/, /\bgluma\b/, /\bignora\b/]
+    }
+  },
+  {
+    name: 'offtopic:elsewhere',
+    weight: -2,
+    patterns: [/\b(london|manchester|birmingham|edinburgh|paris|new york|america|usa|france|spain|germany|australia)\b/],
+    localized: {
+      pl: [/\b(londyn|warszaw|krakow|polsk|niemcz|francj|hiszpani|ameryk)/],
+      ro: [/\b(londra|bucuresti|romania|franta|germania|spania|america)\b/]
+    }
+  },
+  {
+    name: 'offtopic:general-knowledge',
+    weight: -2,
+    patterns: [/\bcapital of\b/, /\bwho (won|invented|wrote|discovered)\b/, /\bmeaning of life\b/, /\bpresident\b/, /\bcelebrit(y|ies)\b/, /\bfootball (score|results?)\b/],
+    localized: {
+      pl: [/\bstolic/, /\bkto (wygral|wynalazl|napisal|odkryl)\b/, /\bsens zycia\b/, /\bprezydent/, /\bwynik(i)? meczu\b/],
+      ro: [/\bcapitala\b/, /\bcine a (castigat|inventat|scris|descoperit)\b/, /\bsensul vietii\b/, /\bpresedinte/, /\bscorul meciului\b/]
+    }
+  }
+];
+
+const DEFAULT_THRESHOLD = 2;
+const BORDERLINE_MARGIN = 1; // scores in [threshold - margin, threshold) are borderline
+
+// Lower case without diacritics, so "Gdzie jest najbliższa apteka?" and
+// "Unde este școala?" match plain ASCII patterns. Polish ł doesn't decompose.
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function getTopicThreshold(): number {
+  const configured = Number(process.env.TOPIC_THRESHOLD);
+  return process.env.TOPIC_THRESHOLD && !isNaN(configured) ? configured : DEFAULT_THRESHOLD;
+}
+
+export function scoreTopic(
+  query: string,
+  context: TopicContext,
+  threshold: number = getTopicThreshold()
+): TopicDecision {
+  const normalized = foldText(query);
+
+  // English patterns always apply, since residents mix in English place and
+  // service names; the chosen locale's patterns are added to them
+  const patternsFor = (feature: TopicFeature): RegExp[] =>
+    feature.patterns.concat((context.locale && feature.localized && feature.localized[context.locale]) || []);
+
+  const matched = TOPIC_FEATURES
+    .filter(feature => !feature.requiresHistory || context.hasHistory)
+    .filter(feature => patternsFor(feature).some(pattern => pattern.test(normalized)))
+    .map(feature => ({ name: feature.name, weight: feature.weight }));
+
+  const score = matched.reduce((sum, feature) => sum + feature.weight, 0);
+  const related = score >= threshold;
+
+  // Credit the strongest feature pulling in the direction of the decision
+  const deciding = matched
+    .filter(feature => related ? feature.weight > 0 : feature.weight < 0)
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))[0];
+
+  return {
+    related,
+    score,
+    threshold,
+    rule: deciding
+      ? deciding.name
+      : related ? 'score:threshold' : score > 0 ? 'score:below-threshold' : 'score:no-local-signal',
+    features: matched
+  };
+}
+
+export function isBorderline(decision: TopicDecision): boolean {
+  return !decision.related && decision.score >= decision.threshold - BORDERLINE_MARGIN;
+}
+
+// Cheap yes/no check with a non-reasoning model (TOPIC_LLM_CHAIN, default
+// perplexity:sonar). Returns null when the call fails so the caller can fall
+// back to the score.
+async function askLlmIsRelated(query: string, targets: LlmTarget[], requestId?: string): Promise<boolean | null> {
+  try {
+    const result = await completeChat({
+      messages: [
+        {
+          role: 'system',
+          content: 'You screen questions for a local information assistant serving Northstowe, a new town in Cambridgeshire, UK. Questions may be in any language. Reply with only YES if a Northstowe resident could reasonably be asking about local services, facilities, events, transport or developments, otherwise reply with only NO.'
+        },
+        { role: 'user', content: query }
+      ],
+      maxTokens: 3,
+      temperature: 0,
+      timeoutMs: 5000,
+      requestId
+    }, undefined, targets);
+
+    return /^\s*yes/i.test(result.content);
+  } catch (error) {
+    logger.warn('topic_llm_check_failed', { requestId, error });
+    return null;
+  }
+}
+
+// Scores the question and, when TOPIC_LLM_CHECK=true, asks the model about
+// borderline cases. Logs which rule decided every request.
+export async function classifyTopic(
+  query: string,
+  context: TopicContext,
+  requestId?: string
+): Promise<TopicDecision> {
+  let decision = scoreTopic(query, context);
+
+  if (isBorderline(decision) && process.env.TOPIC_LLM_CHECK === 'true') {
+    const llmVerdict = await askLlmIsRelated(query, getLlmChain(process.env.TOPIC_LLM_CHAIN || 'perplexity:sonar'), requestId);
+    if (llmVerdict !== null) {
+      decision = { ...decision, related: llmVerdict, rule: llmVerdict ? 'llm:yes' : 'llm:no' };
+    }
+  }
+
+  logger.info('topic_gate', {
+    requestId,
+    related: decision.related,
+    rule: decision.rule,
+    score: decision.score,
+    threshold: decision.threshold,
+    features: decision.features.map(feature => feature.name)
+  });
+
+  return decision;
+}
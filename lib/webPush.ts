@@ -0,0 +1,127 @@
+import axios from 'axios';
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto';
+import type { PushTarget } from '@/lib/subscriptions';
+
+// Web Push (RFC 8030) with VAPID authentication (RFC 8292) and aes128gcm
+// payload encryption (RFC 8291), using only Node's crypto. Keys are the
+// base64url P-256 pair printed by `npm run vapid:keys`.
+
+export interface VapidKeys {
+  publicKey: string; // 65-byte uncompressed point
+  privateKey: string; // 32-byte scalar
+  subject: string; // mailto: or https: contact for push services
+}
+
+export interface PushResult {
+  ok: boolean;
+  status: number;
+  // 404 and 410 mean the browser unsubscribed, so the subscription can go
+  gone: boolean;
+}
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function hkdf(key: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', key, salt, info, length));
+}
+
+// Push is offered only when all three VAPID settings are present
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+  return publicKey && privateKey && subject ? { publicKey, privateKey, subject } : null;
+}
+
+export function generateVapidKeys(): Pick<VapidKeys, 'publicKey' | 'privateKey'> {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return { publicKey: base64url(ecdh.getPublicKey()), privateKey: base64url(ecdh.getPrivateKey()) };
+}
+
+// ES256 JWT for the push service's origin
+function vapidAuthorization(endpoint: string, keys: VapidKeys, now: number): string {
+  const publicKey = fromBase64url(keys.publicKey);
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65))
+    },
+    format: 'jwk'
+  });
+
+  const header = base64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + JWT_LIFETIME_SECONDS,
+    sub: keys.subject
+  })));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${keys.publicKey}`;
+}
+
+// One aes128gcm record: a header with the salt and our one-off public key,
+// then the payload with its 0x02 end-of-content delimiter, encrypted
+export function encryptPayload(payload: Buffer, target: PushTarget): Buffer {
+  const browserPublicKey = fromBase64url(target.keys.p256dh);
+  const authSecret = fromBase64url(target.keys.auth);
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(browserPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserPublicKey, serverPublicKey]);
+  const inputKey = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const contentKey = hkdf(inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, encrypted]);
+}
+
+export async function sendWebPush(
+  target: PushTarget,
+  payload: object,
+  keys: VapidKeys,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS,
+  now: number = Date.now()
+): Promise<PushResult> {
+  const response = await axios.post(target.endpoint, encryptPayload(Buffer.from(JSON.stringify(payload)), target), {
+    headers: {
+      Authorization: vapidAuthorization(target.endpoint, keys, now),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(ttlSeconds),
+      Urgency: 'normal'
+    },
+    timeout: 15000,
+    maxRedirects: 0,
+    validateStatus: () => true
+  });
+
+  return {
+    ok: response.status >= 200 && response.status < 300,
+    status: response.status,
+    gone: response.status === 404 || response.status === 410
+  };
+}
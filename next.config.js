@@ -2,6 +2,12 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  async rewrites() {
+    return [
+      // Subscribable calendar address for residents
+      { source: '/meetings.ics', destination: '/api/meetings?format=ics' },
+    ]
+  },
 }
 
 module.exports = nextConfig
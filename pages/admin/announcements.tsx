@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { Megaphone, Pencil, Pin, Trash2 } from 'lucide-react';
+import AdminShell from '@/components/AdminShell';
+
+interface Notice {
+  id: string;
+  kind: 'announcement' | 'fact';
+  text: string;
+  topic: string;
+  startsAt: string;
+  expiresAt: string;
+}
+
+interface NoticeForm {
+  kind: 'announcement' | 'fact';
+  text: string;
+  topic: string;
+  startsAt: string; // datetime-local values, in the moderator's time zone
+  expiresAt: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// datetime-local inputs want "YYYY-MM-DDTHH:mm" in local time
+function toLocalInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function emptyForm(): NoticeForm {
+  return { kind: 'announcement', text: '', topic: 'all', startsAt: '', expiresAt: toLocalInput(new Date(Date.now() + 7 * DAY)) };
+}
+
+function noticeStatus(notice: Notice, now: number): string {
+  if (new Date(notice.expiresAt).getTime() <= now) return 'Expired';
+  if (new Date(notice.startsAt).getTime() > now) return 'Scheduled';
+  return 'Active';
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function NoticeManager({ token, signOut }: { token: string; signOut: (message?: string) => void }) {
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [topics, setTopics] = useState<string[]>(['all']);
+  const [form, setForm] = useState<NoticeForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/admin/announcements', { headers: { Authorization: `Bearer ${token}` } });
+        if (response.status === 401) {
+          signOut('That admin token was not accepted.');
+          return;
+        }
+        const data = await response.json();
+        setNotices(data.notices);
+        setTopics(data.topics);
+      } catch (loadError) {
+        console.error('Failed to load announcements:', loadError);
+        setError('Failed to load announcements');
+      }
+    };
+
+    load();
+  }, [token, signOut, refreshCount]);
+
+  const request = async (method: string, id: string | null, body?: unknown): Promise<boolean> => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/announcements${id ? `?id=${encodeURIComponent(id)}` : ''}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (response.status === 401) {
+        signOut('That admin token was not accepted.');
+        return false;
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to save');
+        return false;
+      }
+      setRefreshCount(count => count + 1);
+      return true;
+    } catch (saveError) {
+      console.error('Failed to save announcement:', saveError);
+      setError('Failed to save');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submit = async () => {
+    const saved = await request(editingId ? 'PUT' : 'POST', editingId, {
+      kind: form.kind,
+      text: form.text,
+      topic: form.topic,
+      startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+      expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+    });
+    if (saved) {
+      setForm(emptyForm());
+      setEditingId(null);
+    }
+  };
+
+  const edit = (notice: Notice) => {
+    setEditingId(notice.id);
+    setForm({
+      kind: notice.kind,
+      text: notice.text,
+      topic: notice.topic,
+      startsAt: toLocalInput(new Date(notice.startsAt)),
+      expiresAt: toLocalInput(new Date(notice.expiresAt)),
+    });
+  };
+
+  const remove = (notice: Notice) => {
+    if (window.confirm(`Delete "${notice.text.slice(0, 60)}"?`)) {
+      request('DELETE', notice.id);
+    }
+  };
+
+  const now = Date.now();
+  const inputClass = 'p-2 text-sm border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <>
+      <form
+        className="bg-white/70 rounded-2xl shadow border border-white/20 p-4 space-y-3 text-sm"
+        onSubmit={event => {
+          event.preventDefault();
+          submit();
+        }}
+      >
+        <h2 className="font-medium text-gray-900">{editingId ? 'Edit notice' : 'New notice'}</h2>
+        <div className="flex flex-wrap gap-2">
+          <select value={form.kind} onChange={event => setForm({ ...form, kind: event.target.value as NoticeForm['kind'] })} aria-label="Kind" className={inputClass}>
+            <option value="announcement">Announcement</option>
+            <option value="fact">Pinned fact</option>
+          </select>
+          <select value={form.topic} onChange={event => setForm({ ...form, topic: event.target.value })} aria-label="Topic" className={inputClass}>
+            {topics.map(topic => (
+              <option key={topic} value={topic}>{topic === 'all' ? 'All topics' : topic}</option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={form.text}
+          onChange={event => setForm({ ...form, text: event.target.value })}
+          maxLength={500}
+          rows={3}
+          placeholder={form.kind === 'fact' ? 'e.g. The GP surgery now opens on 3 March 2027.' : 'e.g. Rampton Drift is closed to traffic until Friday.'}
+          aria-label="Text"
+          className={`w-full ${inputClass}`}
+        />
+        <div className="flex flex-wrap gap-4">
+          <label className="flex flex-col gap-1 text-xs text-gray-700">
+            Starts (blank for now)
+            <input type="datetime-local" value={form.startsAt} onChange={event => setForm({ ...form, startsAt: event.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-700">
+            Expires
+            <input type="datetime-local" required value={form.expiresAt} onChange={event => setForm({ ...form, expiresAt: event.target.value })} className={inputClass} />
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <button type="submit" disabled={isSaving || !form.text.trim()} className="px-3 py-1 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50">
+            {editingId ? 'Save changes' : 'Publish'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={() => { setEditingId(null); setForm(emptyForm()); }} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {error && <p className="p-3 text-sm bg-red-50 border border-red-200 rounded-lg text-red-800">{error}</p>}
+
+      {notices.length === 0 && <p className="text-sm text-gray-600">No announcements or pinned facts yet.</p>}
+
+      <ul className="space-y-2">
+        {notices.map(notice => {
+          const status = noticeStatus(notice, now);
+          return (
+            <li key={notice.id} className={`bg-white/70 rounded-xl border border-white/20 p-3 text-sm flex items-start gap-2 ${status === 'Expired' ? 'opacity-60' : ''}`}>
+              {notice.kind === 'fact'
+                ? <Pin className="h-4 w-4 mt-0.5 text-purple-600 flex-shrink-0" />
+                : <Megaphone className="h-4 w-4 mt-0.5 text-blue-600 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-900">{notice.text}</p>
+                <p className="text-xs text-gray-500">
+                  {status} • {notice.topic === 'all' ? 'All topics' : notice.topic} • {formatDate(notice.startsAt)} to {formatDate(notice.expiresAt)}
+                </p>
+              </div>
+              <button type="button" onClick={() => edit(notice)} aria-label="Edit notice" className="p-1 text-gray-500 hover:text-blue-600">
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button type="button" onClick={() => remove(notice)} disabled={isSaving} aria-label="Delete notice" className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+}
+
+export default function AnnouncementsAdmin() {
+  return (
+    <AdminShell title="Announcements">
+      {(token, signOut) => <NoticeManager token={token} signOut={signOut} />}
+    </AdminShell>
+  );
+}
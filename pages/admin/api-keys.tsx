@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Pencil, Trash2 } from 'lucide-react';
+import AdminShell from '@/components/AdminShell';
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  widgetKey?: string;
+  allowedOrigins: string[];
+  rateLimit: number;
+  dailyQuota: number;
+  createdAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+  usage: {
+    today: number;
+    last7Days: Record<string, number>;
+    last30Days: Record<string, number>;
+  };
+}
+
+// What POST, PUT and DELETE return; only POST includes the key itself
+interface SavedKey extends ApiKeySummary {
+  key?: string;
+}
+
+interface KeyForm {
+  name: string;
+  allowedOrigins: string; // one per line
+  rateLimit: string;
+  dailyQuota: string;
+}
+
+const EMPTY_FORM: KeyForm = { name: '', allowedOrigins: '', rateLimit: '10', dailyQuota: '500' };
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function total(counts: Record<string, number>): number {
+  return Object.keys(counts).reduce((sum, outcome) => sum + counts[outcome], 0);
+}
+
+function describeOutcomes(counts: Record<string, number>): string {
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a]).map(outcome => `${counts[outcome]} ${outcome}`).join(', ');
+}
+
+// Uses the publishable widget key; the secret key never goes in a page
+function widgetSnippet(widgetKey: string): string {
+  return `<script src="${window.location.origin}/widget.js" data-key="${widgetKey}" async></script>`;
+}
+
+function KeyManager({ token, signOut }: { token: string; signOut: (message?: string) => void }) {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [form, setForm] = useState<KeyForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+  const [snippetId, setSnippetId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/admin/api-keys', { headers: { Authorization: `Bearer ${token}` } });
+        if (response.status === 401) {
+          signOut('That admin token was not accepted.');
+          return;
+        }
+        const data = await response.json();
+        setKeys(data.keys);
+      } catch (loadError) {
+        console.error('Failed to load API keys:', loadError);
+        setError('Failed to load API keys');
+      }
+    };
+
+    load();
+  }, [token, signOut, refreshCount]);
+
+  const request = async (method: string, id: string | null, body?: unknown): Promise<SavedKey | null> => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/api-keys${id ? `?id=${encodeURIComponent(id)}` : ''}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (response.status === 401) {
+        signOut('That admin token was not accepted.');
+        return null;
+      }
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || 'Failed to save');
+        return null;
+      }
+      setRefreshCount(count => count + 1);
+      return data;
+    } catch (saveError) {
+      console.error('Failed to save API key:', saveError);
+      setError('Failed to save');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submit = async () => {
+    const saved = await request(editingId ? 'PUT' : 'POST', editingId, {
+      name: form.name,
+      allowedOrigins: form.allowedOrigins.split(/\s+/).filter(Boolean),
+      rateLimit: Number(form.rateLimit),
+      dailyQuota: Number(form.dailyQuota),
+    });
+    if (saved) {
+      setNewKey(saved.key ? { name: saved.name, key: saved.key } : null);
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    }
+  };
+
+  const edit = (record: ApiKeySummary) => {
+    setEditingId(record.id);
+    setNewKey(null);
+    setForm({
+      name: record.name,
+      allowedOrigins: record.allowedOrigins.join('\n'),
+      rateLimit: String(record.rateLimit),
+      dailyQuota: String(record.dailyQuota),
+    });
+  };
+
+  const revoke = (record: ApiKeySummary) => {
+    if (window.confirm(`Revoke the key for "${record.name}"? Sites using it stop working straight away.`)) {
+      request('DELETE', record.id);
+    }
+  };
+
+  const inputClass = 'p-2 text-sm border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <>
+      <form
+        className="bg-white/70 rounded-2xl shadow border border-white/20 p-4 space-y-3 text-sm"
+        onSubmit={event => {
+          event.preventDefault();
+          submit();
+        }}
+      >
+        <h2 className="font-medium text-gray-900">{editingId ? 'Edit key' : 'New key'}</h2>
+        <input
+          type="text"
+          value={form.name}
+          onChange={event => setForm({ ...form, name: event.target.value })}
+          maxLength={80}
+          placeholder="Who it is for, e.g. Northstowe PTA"
+          aria-label="Name"
+          className={`w-full ${inputClass}`}
+        />
+        <textarea
+          value={form.allowedOrigins}
+          onChange={event => setForm({ ...form, allowedOrigins: event.target.value })}
+          rows={2}
+          placeholder={'Sites allowed to use it, one per line, e.g. https://northstowepta.org\nLeave empty for server-side use only.'}
+          aria-label="Allowed origins"
+          className={`w-full ${inputClass}`}
+        />
+        <div className="flex flex-wrap gap-4">
+          <label className="flex flex-col gap-1 text-xs text-gray-700">
+            Questions per minute
+            <input type="number" min={1} max={600} required value={form.rateLimit} onChange={event => setForm({ ...form, rateLimit: event.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-700">
+            Questions per day
+            <input type="number" min={1} max={100000} required value={form.dailyQuota} onChange={event => setForm({ ...form, dailyQuota: event.target.value })} className={inputClass} />
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <button type="submit" disabled={isSaving || !form.name.trim()} className="px-3 py-1 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50">
+            {editingId ? 'Save changes' : 'Issue key'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={() => { setEditingId(null); setForm(EMPTY_FORM); }} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {newKey && (
+        <div className="p-3 space-y-2 text-sm bg-green-50 border border-green-200 rounded-lg text-green-900">
+          <p>Secret key for {newKey.name}, for their server to call /api/v1. Copy it now; it won&apos;t be shown again. It must never go in a web page.</p>
+          <code className="block p-2 bg-white rounded border border-green-200 break-all">{newKey.key}</code>
+          <p>For the widget, use the snippet from the key&apos;s entry below.</p>
+        </div>
+      )}
+
+      {error && <p className="p-3 text-sm bg-red-50 border border-red-200 rounded-lg text-red-800">{error}</p>}
+
+      {keys.length === 0 && <p className="text-sm text-gray-600">No API keys issued yet.</p>}
+
+      <ul className="space-y-2">
+        {keys.map(record => (
+          <li key={record.id} className={`bg-white/70 rounded-xl border border-white/20 p-3 text-sm flex items-start gap-2 ${record.revokedAt ? 'opacity-60' : ''}`}>
+            <KeyRound className="h-4 w-4 mt-0.5 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-gray-900">
+                {record.name} <span className="text-gray-500">{record.prefix}…</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                {record.revokedAt ? `Revoked ${formatDate(record.revokedAt)}` : `Issued ${formatDate(record.createdAt)}`}
+                {' • '}{record.allowedOrigins.length > 0 ? record.allowedOrigins.join(', ') : 'Server-side only'}
+                {' • '}{record.rateLimit}/min, {record.dailyQuota}/day
+              </p>
+              <p className="text-xs text-gray-700">
+                Today {record.usage.today} of {record.dailyQuota} • 7 days {total(record.usage.last7Days)} • 30 days {total(record.usage.last30Days)}
+                {record.lastUsedAt ? ` • last used ${formatDate(record.lastUsedAt)}` : ''}
+              </p>
+              {total(record.usage.last30Days) > 0 && (
+                <p className="text-xs text-gray-500">{describeOutcomes(record.usage.last30Days)}</p>
+              )}
+              {!record.revokedAt && record.widgetKey && record.allowedOrigins.length > 0 && (
+                snippetId === record.id ? (
+                  <code className="block p-2 text-xs bg-white rounded border border-gray-200 break-all">{widgetSnippet(record.widgetKey)}</code>
+                ) : (
+                  <button type="button" onClick={() => setSnippetId(record.id)} className="text-xs text-blue-600 hover:underline">
+                    Show widget snippet
+                  </button>
+                )
+              )}
+            </div>
+            {!record.revokedAt && (
+              <>
+                <button type="button" onClick={() => edit(record)} aria-label="Edit key" className="p-1 text-gray-500 hover:text-blue-600">
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => revoke(record)} disabled={isSaving} aria-label="Revoke key" className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+export default function ApiKeysAdmin() {
+  return (
+    <AdminShell title="API Keys">
+      {(token, signOut) => <KeyManager token={token} signOut={signOut} />}
+    </AdminShell>
+  );
+}
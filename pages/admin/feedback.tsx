@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Check, RefreshCw, ThumbsDown, ThumbsUp } from 'lucide-react';
+import type { Citation } from '@/lib/citations';
+import { QUERY_INTENTS } from '@/lib/intents';
+import { normalizeQuery } from '@/lib/responseCache';
+import Markdown from '@/components/Markdown';
+import { SourcesList } from '@/components/Citations';
+import AdminShell from '@/components/AdminShell';
+
+interface FeedbackItem {
+  answerId: string;
+  rating: 'up' | 'down';
+  note?: string;
+  ratedAt: string;
+  question: string;
+  enhancedQuery: string;
+  intent: string;
+  source: string;
+  model?: string;
+  latencyMs: number;
+  response: string;
+  citations: Citation[];
+  correction?: { response: string; answerId: string };
+}
+
+function FeedbackCard({ item, token, onSaved }: { item: FeedbackItem; token: string; onSaved: (item: FeedbackItem) => void }) {
+  const [draft, setDraft] = useState(item.correction?.response || '');
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+
+  const save = async (correction: string) => {
+    setStatus('saving');
+    try {
+      const response = await fetch('/api/admin/feedback', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ answerId: item.answerId, correction }),
+      });
+      if (!response.ok) {
+        setStatus('failed');
+        return;
+      }
+      onSaved(await response.json());
+      setDraft(correction);
+      setStatus('saved');
+    } catch (error) {
+      console.error('Failed to save correction:', error);
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <li className="bg-white/70 rounded-2xl shadow border border-white/20 p-4 space-y-3">
+      <div className="flex items-start gap-2">
+        {item.rating === 'down'
+          ? <ThumbsDown className="h-4 w-4 mt-1 text-red-600 flex-shrink-0" />
+          : <ThumbsUp className="h-4 w-4 mt-1 text-green-600 flex-shrink-0" />}
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900">{item.question}</p>
+          <p className="text-xs text-gray-500">
+            {item.intent} • {item.source}{item.model ? ` • ${item.model}` : ''} • {(item.latencyMs / 1000).toFixed(1)}s
+            {' '}• rated {new Date(item.ratedAt).toLocaleString('en-GB')}
+          </p>
+        </div>
+      </div>
+
+      {item.note && (
+        <p className="p-2 text-sm bg-red-50 border border-red-100 rounded-lg text-red-800 whitespace-pre-wrap">{item.note}</p>
+      )}
+
+      <details className="text-sm text-gray-800">
+        <summary className="cursor-pointer text-xs text-gray-600">Answer given</summary>
+        <div className="mt-2 p-3 bg-gray-100 rounded-lg">
+          <Markdown text={item.response} />
+          <SourcesList messageId={item.answerId} citations={item.citations} />
+          <p className="mt-2 text-xs text-gray-500">Search query: {item.enhancedQuery}</p>
+        </div>
+      </details>
+
+      <form
+        className="space-y-2"
+        onSubmit={event => {
+          event.preventDefault();
+          save(draft);
+        }}
+      >
+        <label htmlFor={`correction-${item.answerId}`} className="block text-xs font-medium text-gray-700">
+          Corrected answer, given whenever this question is asked again
+        </label>
+        <textarea
+          id={`correction-${item.answerId}`}
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          rows={4}
+          maxLength={8000}
+          className="w-full p-2 text-sm border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            type="submit"
+            disabled={status === 'saving' || !draft.trim()}
+            className="px-3 py-1 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50"
+          >
+            Save correction
+          </button>
+          {item.correction && (
+            <button type="button" onClick={() => save('')} disabled={status === 'saving'} className="px-3 py-1 text-gray-600 hover:text-red-700">
+              Remove correction
+            </button>
+          )}
+          {status === 'saved' && <span className="flex items-center gap-1 text-green-700"><Check className="h-4 w-4" />Saved</span>}
+          {status === 'failed' && <span className="text-red-700">Couldn&apos;t save</span>}
+        </div>
+      </form>
+    </li>
+  );
+}
+
+function FeedbackList({ token, signOut }: { token: string; signOut: (message?: string) => void }) {
+  const [rating, setRating] = useState<'down' | 'up' | 'all'>('down');
+  const [intent, setIntent] = useState('');
+  const [items, setItems] = useState<FeedbackItem[]>([]);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const params = new URLSearchParams({ rating });
+        if (intent) params.set('intent', intent);
+        const response = await fetch(`/api/admin/feedback?${params.toString()}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (response.status === 401) {
+          signOut('That admin token was not accepted.');
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load feedback');
+          return;
+        }
+        setItems(data.entries);
+      } catch (loadError) {
+        console.error('Failed to load feedback:', loadError);
+        setError('Failed to load feedback');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [token, signOut, rating, intent, refreshCount]);
+
+  // A correction applies to every rating of the same question
+  const applySaved = (saved: FeedbackItem) => {
+    setItems(prev => prev.map(item => normalizeQuery(item.question) === normalizeQuery(saved.question)
+      ? { ...item, correction: saved.correction }
+      : item));
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select value={rating} onChange={event => setRating(event.target.value as 'down' | 'up' | 'all')} aria-label="Rating" className="p-2 border border-gray-200 rounded-lg bg-white">
+          <option value="down">Thumbs down</option>
+          <option value="up">Thumbs up</option>
+          <option value="all">All ratings</option>
+        </select>
+        <select value={intent} onChange={event => setIntent(event.target.value)} aria-label="Intent" className="p-2 border border-gray-200 rounded-lg bg-white">
+          <option value="">All intents</option>
+          {QUERY_INTENTS.map(queryIntent => (
+            <option key={queryIntent.id} value={queryIntent.id}>{queryIntent.id}</option>
+          ))}
+        </select>
+        <button type="button" onClick={() => setRefreshCount(count => count + 1)} disabled={isLoading} aria-label="Refresh" className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="p-3 text-sm bg-red-50 border border-red-200 rounded-lg text-red-800">{error}</p>}
+
+      {!isLoading && !error && items.length === 0 && (
+        <p className="text-sm text-gray-600">No rated answers match these filters.</p>
+      )}
+
+      <ul className="space-y-4">
+        {items.map(item => (
+          <FeedbackCard key={item.answerId} item={item} token={token} onSaved={applySaved} />
+        ))}
+      </ul>
+    </>
+  );
+}
+
+export default function FeedbackReview() {
+  return (
+    <AdminShell title="Answer feedback">
+      {(token, signOut) => <FeedbackList token={token} signOut={signOut} />}
+    </AdminShell>
+  );
+}
@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '@/lib/adminAuth';
+import {
+  ALL_TOPICS,
+  createNotice,
+  deleteNotice,
+  getNoticeTopics,
+  listNotices,
+  updateNotice,
+  validateNotice
+} from '@/lib/announcements';
+import { purgeCachedAnswers } from '@/lib/responseCache';
+import { logger } from '@/lib/logger';
+
+// Cached answers were written without the notice, so they go as soon as it changes
+function purgeAnswersFor(topics: string[]): number {
+  if (topics.indexOf(ALL_TOPICS) !== -1) {
+    return purgeCachedAnswers();
+  }
+  return topics.reduce((purged, topic) => purged + purgeCachedAnswers({ intentId: topic }), 0);
+}
+
+// GET lists every notice with the topics they can have. POST creates one;
+// PUT ?id=<id> replaces one's fields and DELETE ?id=<id> removes it.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ notices: listNotices(), topics: getNoticeTopics() });
+  }
+
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+  if (req.method !== 'POST' && !id) {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  if (req.method === 'DELETE') {
+    const deleted = deleteNotice(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'No notice with that id' });
+    }
+    const purged = purgeAnswersFor([deleted.topic]);
+    logger.info('notice_deleted', { id, kind: deleted.kind, topic: deleted.topic, purged });
+    return res.status(200).json({ deleted: id });
+  }
+
+  const validation = validateNotice(req.body);
+  if (!validation.ok) {
+    return res.status(400).json({ error: validation.error, field: validation.field });
+  }
+
+  if (req.method === 'POST') {
+    const notice = createNotice(validation.value);
+    const purged = purgeAnswersFor([notice.topic]);
+    logger.info('notice_created', { id: notice.id, kind: notice.kind, topic: notice.topic, purged });
+    return res.status(201).json(notice);
+  }
+
+  const updated = updateNotice(id, validation.value);
+  if (!updated) {
+    return res.status(404).json({ error: 'No notice with that id' });
+  }
+  const purged = purgeAnswersFor([updated.before.topic, updated.after.topic]);
+  logger.info('notice_updated', { id, kind: updated.after.kind, topic: updated.after.topic, purged });
+  res.status(200).json(updated.after);
+}
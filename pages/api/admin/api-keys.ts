@@ -0,0 +1,58 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { createApiKey, describeApiKey, listApiKeys, revokeApiKey, updateApiKey, validateApiKey } from '@/lib/apiKeys';
+import { logger } from '@/lib/logger';
+
+// GET lists every key with its usage. POST issues a key, returning it once;
+// PUT ?id=<id> changes its name, origins and limits, and DELETE ?id=<id>
+// revokes it (its usage is kept).
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ keys: listApiKeys().map(record => describeApiKey(record)) });
+  }
+
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+  if (req.method !== 'POST' && !id) {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  if (req.method === 'DELETE') {
+    const revoked = revokeApiKey(id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'No API key with that id' });
+    }
+    logger.info('api_key_revoked', { id, name: revoked.name });
+    return res.status(200).json(describeApiKey(revoked));
+  }
+
+  const validation = validateApiKey(req.body);
+  if (!validation.ok) {
+    return res.status(400).json({ error: validation.error, field: validation.field });
+  }
+
+  if (req.method === 'POST') {
+    const { key, record } = createApiKey(validation.value);
+    logger.info('api_key_created', { id: record.id, name: record.name, allowedOrigins: record.allowedOrigins });
+    return res.status(201).json({ ...describeApiKey(record), key });
+  }
+
+  const updated = updateApiKey(id, validation.value);
+  if (!updated) {
+    return res.status(404).json({ error: 'No API key with that id' });
+  }
+  logger.info('api_key_updated', { id, name: updated.name, allowedOrigins: updated.allowedOrigins });
+  res.status(200).json(describeApiKey(updated));
+}
@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { listCachedAnswers, purgeCachedAnswers } from '@/lib/responseCache';
+import { logger } from '@/lib/logger';
+
+function queryValue(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  if (req.method === 'GET') {
+    const now = Date.now();
+    return res.status(200).json({
+      entries: listCachedAnswers(now).map(entry => ({
+        key: entry.key,
+        query: entry.query,
+        intent: entry.intentId,
+        ageSeconds: Math.round((now - entry.createdAt) / 1000),
+        expiresInSeconds: Math.round((entry.expiresAt - now) / 1000),
+        hits: entry.hits
+      }))
+    });
+  }
+
+  // DELETE with no filters empties the whole cache
+  const purged = purgeCachedAnswers({
+    key: queryValue(req.query.key),
+    intentId: queryValue(req.query.intent),
+    query: queryValue(req.query.query)
+  });
+  logger.info('response_cache_purged', { purged, filters: req.query });
+
+  res.status(200).json({ purged });
+}
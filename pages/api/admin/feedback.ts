@@ -0,0 +1,85 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '@/lib/adminAuth';
+import {
+  FeedbackEntry,
+  MAX_CORRECTION_LENGTH,
+  getCorrectedAnswer,
+  getFeedback,
+  listFeedback,
+  saveCorrection
+} from '@/lib/feedback';
+import { logger } from '@/lib/logger';
+
+function queryValue(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function describeEntry(entry: FeedbackEntry) {
+  const correction = getCorrectedAnswer(entry.answer.question);
+  return {
+    answerId: entry.answer.id,
+    rating: entry.rating,
+    note: entry.note,
+    ratedAt: new Date(entry.updatedAt).toISOString(),
+    question: entry.answer.question,
+    enhancedQuery: entry.answer.enhancedQuery,
+    intent: entry.answer.intentId,
+    source: entry.answer.source,
+    model: entry.answer.model,
+    latencyMs: entry.answer.latencyMs,
+    answeredAt: new Date(entry.answer.createdAt).toISOString(),
+    response: entry.answer.response,
+    citations: entry.answer.citations,
+    correction: correction ? { response: correction.response, answerId: correction.answerId } : undefined
+  };
+}
+
+// GET lists rated answers (?rating=down by default, ?rating=all for both,
+// ?intent=<id>). PUT { answerId, correction } stores a moderator's answer for
+// that question; an empty correction removes it.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'GET') {
+    const rating = queryValue(req.query.rating) || 'down';
+    if (rating !== 'up' && rating !== 'down' && rating !== 'all') {
+      return res.status(400).json({ error: 'rating must be "up", "down" or "all"' });
+    }
+
+    return res.status(200).json({
+      entries: listFeedback({
+        rating: rating === 'all' ? undefined : rating,
+        intentId: queryValue(req.query.intent)
+      }).map(describeEntry)
+    });
+  }
+
+  const { answerId, correction } = req.body || {};
+  if (typeof answerId !== 'string' || typeof correction !== 'string') {
+    return res.status(400).json({ error: 'answerId and correction are required' });
+  }
+  if (correction.length > MAX_CORRECTION_LENGTH) {
+    return res.status(400).json({ error: `correction must be at most ${MAX_CORRECTION_LENGTH} characters` });
+  }
+
+  const entry = getFeedback(answerId);
+  if (!entry) {
+    return res.status(404).json({ error: 'No feedback for that answer' });
+  }
+
+  saveCorrection(answerId, correction);
+  logger.info('answer_correction_saved', { answerId, intent: entry.answer.intentId, removed: !correction.trim() });
+
+  res.status(200).json(describeEntry(entry));
+}
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { listSubscriptions } from '@/lib/subscriptions';
+import { getLastNotificationRun, isNotificationRunInProgress, runNotifications } from '@/lib/notifications';
+
+// GET counts subscriptions and shows the last run. POST runs the reminder job
+// now, which is what a scheduler calls; ?dryRun=true lists what would be sent
+// without sending or marking anything.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'GET') {
+    const subscriptions = listSubscriptions();
+    const count = (filter: (subscription: typeof subscriptions[number]) => boolean) => subscriptions.filter(filter).length;
+    return res.status(200).json({
+      subscriptions: {
+        total: subscriptions.length,
+        push: count(subscription => subscription.channel === 'push'),
+        email: count(subscription => subscription.channel === 'email' && subscription.confirmed),
+        unconfirmed: count(subscription => !subscription.confirmed),
+        bins: count(subscription => subscription.topics.indexOf('bins') !== -1),
+        meetings: count(subscription => subscription.topics.indexOf('meetings') !== -1),
+        announcements: count(subscription => subscription.topics.indexOf('announcements') !== -1)
+      },
+      lastRun: getLastNotificationRun(),
+      running: isNotificationRunInProgress()
+    });
+  }
+
+  if (isNotificationRunInProgress()) {
+    return res.status(409).json({ error: 'A reminder run is already in progress' });
+  }
+
+  const result = await runNotifications({ dryRun: req.query.dryRun === 'true' });
+  res.status(200).json(result.summary.dryRun ? result : { summary: result.summary });
+}
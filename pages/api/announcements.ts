@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getActiveNotices } from '@/lib/announcements';
+
+// Active announcements and pinned facts for the site banner
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'public, max-age=60');
+  res.status(200).json({
+    announcements: getActiveNotices().map(notice => ({
+      id: notice.id,
+      kind: notice.kind,
+      text: notice.text,
+      topic: notice.topic,
+      expiresAt: notice.expiresAt
+    }))
+  });
+}
@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { checkRateLimit, setRateLimitHeaders } from '@/lib/rateLimit';
+import { getClientIp } from '@/lib/clientIp';
+import { getNextByColour, getUpcomingCollections, lookupAddress, ukToday } from '@/lib/bins';
+import { sendApiError } from '@/lib/apiErrors';
+
+const MAX_WEEKS = 12;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return sendApiError(res, 405, 'METHOD_NOT_ALLOWED');
+  }
+
+  const rateLimit = await checkRateLimit('bins', getClientIp(req));
+  setRateLimitHeaders(res, rateLimit);
+  if (rateLimit.limited) {
+    return sendApiError(res, 429, 'RATE_LIMITED', { rateLimited: true });
+  }
+
+  const { address, street, postcode, weeks } = req.query;
+  const search = [address, street, postcode]
+    .filter((value): value is string => typeof value === 'string')
+    .join(' ')
+    .trim();
+
+  if (!search) {
+    return sendApiError(res, 400, 'ADDRESS_REQUIRED');
+  }
+
+  const lookup = lookupAddress(search);
+  if (!lookup) {
+    return sendApiError(res, 404, 'ADDRESS_NOT_FOUND');
+  }
+
+  const requestedWeeks = Number(weeks);
+  const weekCount = requestedWeeks > 0 ? Math.min(Math.floor(requestedWeeks), MAX_WEEKS) : 4;
+  const collections = getUpcomingCollections(lookup.round, ukToday(), weekCount);
+
+  res.status(200).json({
+    street: lookup.street.street,
+    postcode: lookup.street.postcode,
+    round: {
+      id: lookup.round.id,
+      collectionDay: lookup.round.collectionDay
+    },
+    next: getNextByColour(collections),
+    collections
+  });
+}
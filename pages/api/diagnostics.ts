@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { getReadiness, getUptimeSeconds, probeLlmTargets } from '@/lib/health';
+import { DEFAULT_LLM_CHAIN, parseLlmChain } from '@/lib/llm';
+import { summarizeLlmCalls } from '@/lib/llm/stats';
+import { listCachedAnswers } from '@/lib/responseCache';
+
+const STATS_WINDOW = 60 * 60 * 1000; // 1 hour in milliseconds
+
+// Model availability, latency and error rates for operators. Reports names
+// and numbers only, never keys or their lengths. ?probe=true also sends a test
+// message to every model, which spends API credit.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  const stats = summarizeLlmCalls(STATS_WINDOW);
+  const models = parseLlmChain(process.env.LLM_CHAIN || DEFAULT_LLM_CHAIN).map(target => {
+    const name = `${target.provider.name}:${target.model}`;
+    const targetStats = stats.find(entry => entry.target === name);
+    return {
+      target: name,
+      configured: target.provider.isConfigured(),
+      calls: targetStats?.calls || 0,
+      errors: targetStats?.errors || 0,
+      errorRate: targetStats?.errorRate || 0,
+      latencyMs: targetStats?.latencyMs || null,
+      lastSuccessAt: targetStats?.lastSuccessAt,
+      lastError: targetStats?.lastError
+    };
+  });
+
+  const readiness = await getReadiness();
+
+  res.status(200).json({
+    generatedAt: new Date().toISOString(),
+    uptimeSeconds: getUptimeSeconds(),
+    statsWindowSeconds: STATS_WINDOW / 1000,
+    checks: readiness.checks,
+    models,
+    // Models outside LLM_CHAIN, e.g. the topic gate's borderline check
+    otherModels: stats.filter(entry => !models.some(model => model.target === entry.target)),
+    responseCache: { entries: listCachedAnswers().length },
+    probes: req.query.probe === 'true' ? await probeLlmTargets() : undefined
+  });
+}
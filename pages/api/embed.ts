@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requestLocale } from '@/pages/api/chat';
+import { answerWithApiKey } from '@/pages/api/v1/ask';
+import { authenticateWidgetRequest } from '@/lib/apiAuth';
+import { MAX_BODY_SIZE, sendChatError } from '@/lib/chatRequest';
+import { getClientIp } from '@/lib/clientIp';
+import { checkRateLimit, setRateLimitHeaders } from '@/lib/rateLimit';
+import { apiRequests } from '@/lib/metrics';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: MAX_BODY_SIZE
+    }
+  }
+};
+
+// Questions from the widget's embed page. They are answered as /api/v1/ask
+// answers them, against the site's key, but only with the token the page was
+// given after checking the site framing it. Each visitor is also held to the
+// chat's per-IP limit and to a daily share of the site's quota.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const locale = requestLocale(req);
+  if (req.method !== 'POST') {
+    return sendChatError(res, 405, 'METHOD_NOT_ALLOWED', locale);
+  }
+
+  const widget = authenticateWidgetRequest(req, res, locale);
+  if (!widget) {
+    return;
+  }
+  const { key, parentOrigin } = widget;
+  const clientIp = getClientIp(req);
+
+  // Every question counts, answered or not, like the quota. Refusals here
+  // don't count against the quota, or one visitor could still use it up.
+  const share = await checkRateLimit('widget', `${key.id}:${clientIp}`);
+  if (share.limited) {
+    setRateLimitHeaders(res, share);
+    apiRequests.inc({ key: key.id, outcome: 'visitor_limited' });
+    return sendChatError(res, 429, 'RATE_LIMITED', locale, { rateLimited: true });
+  }
+
+  return answerWithApiKey(req, res, key, locale, {
+    rateLimits: [{ route: 'chat', clientKey: clientIp }],
+    logFields: { widgetOrigin: parentOrigin }
+  });
+}
@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { checkRateLimit, setRateLimitHeaders } from '@/lib/rateLimit';
+import { getClientIp } from '@/lib/clientIp';
+import { cleanText } from '@/lib/chatRequest';
+import { MAX_FEEDBACK_NOTE_LENGTH, saveFeedback } from '@/lib/feedback';
+import { sendApiError } from '@/lib/apiErrors';
+
+// Thumbs up or down on an answer, with an optional note on what was wrong.
+// The question, model and sources are looked up from the answer id rather
+// than taken from the browser.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return sendApiError(res, 405, 'METHOD_NOT_ALLOWED');
+  }
+
+  const { answerId, rating, note } = req.body || {};
+  if (typeof answerId !== 'string' || !/^[\w-]{1,100}$/.test(answerId)) {
+    return sendApiError(res, 400, 'INVALID_REQUEST', { error: 'answerId is required', field: 'answerId' });
+  }
+  if (rating !== 'up' && rating !== 'down') {
+    return sendApiError(res, 400, 'INVALID_REQUEST', { error: 'rating must be "up" or "down"', field: 'rating' });
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    return sendApiError(res, 400, 'INVALID_REQUEST', { error: 'note must be a string', field: 'note' });
+  }
+  if (note && note.length > MAX_FEEDBACK_NOTE_LENGTH) {
+    return sendApiError(res, 400, 'INVALID_REQUEST', { error: `note must be at most ${MAX_FEEDBACK_NOTE_LENGTH} characters`, field: 'note' });
+  }
+
+  const rateLimit = await checkRateLimit('feedback', getClientIp(req));
+  setRateLimitHeaders(res, rateLimit);
+  if (rateLimit.limited) {
+    return sendApiError(res, 429, 'RATE_LIMITED', { rateLimited: true });
+  }
+
+  const entry = saveFeedback(answerId, rating, note ? cleanText(note).trim() || undefined : undefined);
+  if (!entry) {
+    return sendApiError(res, 404, 'ANSWER_EXPIRED');
+  }
+
+  res.status(200).json({ rating: entry.rating });
+}
@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getReadiness, getUptimeSeconds } from '@/lib/health';
+
+// GET /api/health?probe=live only confirms the process is serving requests.
+// Without it, readiness checks config, the model provider and the rate-limit
+// store, returning 503 if any fails.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.query.probe === 'live') {
+    return res.status(200).json({ status: 'ok', uptimeSeconds: getUptimeSeconds() });
+  }
+
+  const readiness = await getReadiness();
+  res.status(readiness.ok ? 200 : 503).json({
+    status: readiness.ok ? 'ok' : 'unavailable',
+    uptimeSeconds: getUptimeSeconds(),
+    checks: readiness.checks
+  });
+}
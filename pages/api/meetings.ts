@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ukToday } from '@/lib/bins';
+import { buildMeetingsCalendar, getUpcomingMeetings, loadMeetings } from '@/lib/meetings';
+
+// Calendar apps poll the feed from shared servers, so it is cached rather than rate limited
+const CACHE_CONTROL = 'public, max-age=3600';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const meetings = loadMeetings();
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+
+  const wantsCalendar = req.query.format === 'ics' ||
+    (req.headers.accept || '').indexOf('text/calendar') !== -1;
+  if (wantsCalendar) {
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="northstowe-council-meetings.ics"');
+    return res.status(200).send(buildMeetingsCalendar(meetings));
+  }
+
+  res.status(200).json({
+    upcoming: getUpcomingMeetings(ukToday(), undefined, meetings),
+    meetings
+  });
+}
@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hasBearerToken, isAdminRequest } from '@/lib/adminAuth';
+import { getUptimeSeconds } from '@/lib/health';
+import { createGauge, renderMetrics } from '@/lib/metrics';
+import { listCachedAnswers } from '@/lib/responseCache';
+
+createGauge('ama_process_uptime_seconds', 'Seconds since the server started', () => getUptimeSeconds());
+createGauge('ama_response_cache_entries', 'Answers currently in the response cache', () => listCachedAnswers().length);
+
+// Prometheus scrape endpoint. Counts only, never questions or answers. With
+// METRICS_TOKEN set it requires that token (or ADMIN_TOKEN) as a Bearer token.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (process.env.METRICS_TOKEN && !hasBearerToken(req, process.env.METRICS_TOKEN) && !isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Metrics token required' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.status(200).send(renderMetrics());
+}
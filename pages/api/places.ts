@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { checkRateLimit, setRateLimitHeaders } from '@/lib/rateLimit';
+import { getClientIp } from '@/lib/clientIp';
+import { PLACE_CATEGORIES, PlaceMatch, getPlaces, measureFrom, resolveUserLocation } from '@/lib/places';
+
+const MAX_LIMIT = 50;
+
+function describeMatch(match: PlaceMatch) {
+  const { place } = match;
+  return {
+    id: place.id,
+    name: place.name,
+    category: place.category,
+    postcode: place.postcode,
+    address: place.address,
+    url: place.url,
+    lat: place.points[0].lat,
+    lon: place.points[0].lon,
+    metres: match.metres,
+    walkMinutes: match.walkMinutes,
+    cycleMinutes: match.cycleMinutes
+  };
+}
+
+// Lists gazetteer places, optionally one ?category, sorted by distance from
+// ?street=<name> or ?lat=&lon= when given
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rateLimit = await checkRateLimit('places', getClientIp(req));
+  setRateLimitHeaders(res, rateLimit);
+  if (rateLimit.limited) {
+    return res.status(429).json({
+      error: 'Too many requests. Please wait a moment before trying again.',
+      rateLimited: true
+    });
+  }
+
+  const { category, street, lat, lon, limit } = req.query;
+  if (category !== undefined && (typeof category !== 'string' || !Object.prototype.hasOwnProperty.call(PLACE_CATEGORIES, category))) {
+    return res.status(400).json({ error: `category must be one of ${Object.keys(PLACE_CATEGORIES).join(', ')}` });
+  }
+
+  const hasOrigin = typeof street === 'string' || lat !== undefined || lon !== undefined;
+  const origin = hasOrigin
+    ? resolveUserLocation(typeof street === 'string' ? { street } : { lat: Number(lat), lon: Number(lon) })
+    : null;
+  if (hasOrigin && !origin) {
+    return res.status(404).json({ error: "We couldn't find that location in Northstowe" });
+  }
+
+  const matches = getPlaces()
+    .filter(place => !category || place.category === category)
+    .filter(place => !origin || place.id !== origin.placeId)
+    .map(place => measureFrom(origin && origin.point, place));
+  if (origin) {
+    matches.sort((a, b) => a.metres! - b.metres!);
+  }
+
+  const requestedLimit = Number(limit);
+  const count = requestedLimit > 0 ? Math.min(Math.floor(requestedLimit), MAX_LIMIT) : MAX_LIMIT;
+
+  res.setHeader('Cache-Control', origin ? 'no-store' : 'public, max-age=3600');
+  res.status(200).json({
+    origin: origin ? { placeId: origin.placeId, lat: origin.point.lat, lon: origin.point.lon } : undefined,
+    places: matches.slice(0, count).map(describeMatch)
+  });
+}
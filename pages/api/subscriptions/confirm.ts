@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { confirmSubscription, describeSubscription } from '@/lib/subscriptions';
+import { sendApiError } from '@/lib/apiErrors';
+import { logger } from '@/lib/logger';
+
+// POST ?token=<token> from the link in the confirmation email. The link opens
+// the /reminders page, which posts here, so mail scanners that follow links
+// can't confirm on a resident's behalf.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return sendApiError(res, 405, 'METHOD_NOT_ALLOWED');
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  const subscription = token ? confirmSubscription(token) : null;
+  if (!subscription) {
+    return sendApiError(res, 404, 'SUBSCRIPTION_NOT_FOUND');
+  }
+
+  logger.info('subscription_confirmed', { subscriptionId: subscription.id });
+  res.status(200).json({ subscription: describeSubscription(subscription) });
+}
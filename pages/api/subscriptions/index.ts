@@ -0,0 +1,129 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { checkRateLimit, setRateLimitHeaders } from '@/lib/rateLimit';
+import { getClientIp } from '@/lib/clientIp';
+import {
+  NOTIFICATION_TOPICS,
+  describeSubscription,
+  deleteSubscription,
+  getSubscriptionByToken,
+  saveSubscription,
+  updatePreferences,
+  validatePreferencesUpdate,
+  validateSubscription
+} from '@/lib/subscriptions';
+import { buildConfirmationEmail, buildManageEmail } from '@/lib/notifications';
+import { getEmailTransport } from '@/lib/email';
+import { getVapidKeys } from '@/lib/webPush';
+import { sendApiError } from '@/lib/apiErrors';
+import { logger } from '@/lib/logger';
+
+// Reminder preferences. GET without a token says which channels are offered
+// (with the VAPID key browsers subscribe with); with ?token=<token> it returns
+// that subscription. POST subscribes, PUT ?token= changes topics, street or
+// language, and DELETE ?token= unsubscribes.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return sendApiError(res, 405, 'METHOD_NOT_ALLOWED');
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (req.method === 'GET' && !token) {
+    const vapidKeys = getVapidKeys();
+    return res.status(200).json({
+      topics: NOTIFICATION_TOPICS,
+      channels: {
+        push: vapidKeys ? { publicKey: vapidKeys.publicKey } : null,
+        email: !!getEmailTransport()
+      }
+    });
+  }
+
+  if (req.method === 'POST') {
+    return subscribe(req, res);
+  }
+
+  if (!token) {
+    return sendApiError(res, 400, 'INVALID_REQUEST', { error: 'token is required', field: 'token' });
+  }
+  const existing = getSubscriptionByToken(token);
+  if (!existing) {
+    return sendApiError(res, 404, 'SUBSCRIPTION_NOT_FOUND');
+  }
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ subscription: describeSubscription(existing) });
+  }
+
+  if (req.method === 'DELETE') {
+    deleteSubscription(token);
+    logger.info('subscription_deleted', { subscriptionId: existing.id, channel: existing.channel });
+    return res.status(200).json({ deleted: true });
+  }
+
+  const validation = validatePreferencesUpdate(req.body);
+  if (!validation.ok) {
+    return sendApiError(res, 400, validation.code, {
+      field: validation.field,
+      error: validation.code === 'INVALID_REQUEST' ? validation.error : undefined
+    });
+  }
+  const updated = updatePreferences(token, validation.value);
+  logger.info('subscription_updated', { subscriptionId: existing.id, topics: validation.value.topics });
+  return res.status(200).json({ subscription: updated && describeSubscription(updated) });
+}
+
+async function subscribe(req: NextApiRequest, res: NextApiResponse) {
+  const clientIp = getClientIp(req);
+  const rateLimit = await checkRateLimit('subscriptions', clientIp);
+  setRateLimitHeaders(res, rateLimit);
+  if (rateLimit.limited) {
+    return sendApiError(res, 429, 'RATE_LIMITED', { rateLimited: true });
+  }
+
+  const validation = validateSubscription(req.body);
+  if (!validation.ok) {
+    return sendApiError(res, 400, validation.code, {
+      field: validation.field,
+      error: validation.code === 'INVALID_REQUEST' ? validation.error : undefined
+    });
+  }
+
+  const input = validation.value;
+  const transport = input.channel === 'email' ? getEmailTransport() : null;
+  if (input.channel === 'email' ? !transport : !getVapidKeys()) {
+    return sendApiError(res, 400, 'CHANNEL_UNAVAILABLE', { field: 'channel' });
+  }
+
+  const saved = saveSubscription(input, clientIp);
+  if (!saved) {
+    return sendApiError(res, 429, 'TOO_MANY_BROWSERS', { rateLimited: true });
+  }
+  const { subscription, created } = saved;
+  logger.info('subscription_saved', {
+    subscriptionId: subscription.id,
+    channel: subscription.channel,
+    created,
+    topics: subscription.topics
+  });
+
+  // The browser that subscribed for push keeps the token to manage it. For
+  // email the token only goes to the address, which proves it is theirs.
+  if (subscription.channel === 'push') {
+    return res.status(created ? 201 : 200).json({ token: subscription.token, subscription: describeSubscription(subscription) });
+  }
+
+  try {
+    await (transport as NonNullable<typeof transport>).send(
+      subscription.confirmed ? buildManageEmail(subscription) : buildConfirmationEmail(subscription)
+    );
+  } catch (error) {
+    logger.error('subscription_email_failed', { subscriptionId: subscription.id, error });
+    return sendApiError(res, 502, 'EMAIL_FAILED');
+  }
+  return res.status(202).json({ status: 'confirmation_sent' });
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { deleteSubscription } from '@/lib/subscriptions';
+import { sendApiError } from '@/lib/apiErrors';
+import { logger } from '@/lib/logger';
+
+// One-click unsubscribe (RFC 8058): mail clients POST to the List-Unsubscribe
+// address with ?token=<token>. Only POST, so link checkers can't unsubscribe.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return sendApiError(res, 405, 'METHOD_NOT_ALLOWED');
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  const subscription = token ? deleteSubscription(token) : null;
+  if (!subscription) {
+    return sendApiError(res, 404, 'SUBSCRIPTION_NOT_FOUND');
+  }
+
+  logger.info('subscription_deleted', { subscriptionId: subscription.id, channel: subscription.channel, via: 'one_click' });
+  res.status(200).json({ deleted: true });
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ChatHandlerOptions, handleChat, requestLocale } from '@/pages/api/chat';
+import { authenticateApiRequest } from '@/lib/apiAuth';
+import { ApiKey, getRequestsToday, recordApiUsage } from '@/lib/apiKeys';
+import { MAX_BODY_SIZE, sendChatError } from '@/lib/chatRequest';
+import { getClientIp } from '@/lib/clientIp';
+import { Locale } from '@/lib/i18n';
+import { LogFields } from '@/lib/logger';
+import { apiRequests } from '@/lib/metrics';
+
+// Version 1 of the public API, for community sites' servers. The body and
+// answers are those of /api/chat without streaming, and this contract stays
+// fixed while /api/chat changes with the site.
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: MAX_BODY_SIZE
+    }
+  }
+};
+
+// Answers a question against a key's daily quota and per-minute limit, with
+// any further limits the caller adds; shared with the widget's /api/embed
+export async function answerWithApiKey(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  key: ApiKey,
+  locale: Locale,
+  options: { rateLimits?: ChatHandlerOptions['rateLimits']; logFields?: LogFields } = {}
+) {
+  const count = (outcome: string) => {
+    apiRequests.inc({ key: key.id, outcome });
+    recordApiUsage(key.id, outcome);
+  };
+
+  // The daily quota counts every question, answered or not
+  const usedToday = getRequestsToday(key);
+  res.setHeader('X-Quota-Limit', key.dailyQuota);
+  res.setHeader('X-Quota-Remaining', Math.max(0, key.dailyQuota - usedToday - 1));
+  if (usedToday >= key.dailyQuota) {
+    count('quota_exceeded');
+    return sendChatError(res, 429, 'QUOTA_EXCEEDED', locale, { rateLimited: true });
+  }
+
+  return handleChat(req, res, {
+    // Questions per minute that reach the model, as the chat limits each IP
+    rateLimits: [
+      { route: 'api', clientKey: key.id, policy: { limit: key.rateLimit, windowMs: 60 * 1000 } },
+      ...(options.rateLimits || [])
+    ],
+    allowStream: false,
+    logFields: { apiKeyId: key.id, ...options.logFields },
+    onOutcome: outcome => count(outcome)
+  });
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const locale = requestLocale(req);
+  const key = authenticateApiRequest(req, res, 'POST', locale);
+  if (!key) {
+    return;
+  }
+
+  // A key used from a browser is also held to the chat's per-IP limit, so one
+  // visitor can't use up the site's allowance
+  const fromBrowser = typeof req.headers.origin === 'string';
+  return answerWithApiKey(req, res, key, locale, {
+    rateLimits: fromBrowser ? [{ route: 'chat', clientKey: getClientIp(req) }] : []
+  });
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requestLocale } from '@/pages/api/chat';
+import { authenticateApiRequest } from '@/lib/apiAuth';
+import { describeApiKey } from '@/lib/apiKeys';
+import { sendChatError } from '@/lib/chatRequest';
+
+// GET returns the calling key's limits and how many questions it has used,
+// so a site can keep an eye on its quota
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const locale = requestLocale(req);
+  const key = authenticateApiRequest(req, res, 'GET', locale);
+  if (!key) {
+    return;
+  }
+  if (req.method !== 'GET') {
+    return sendChatError(res, 405, 'METHOD_NOT_ALLOWED', locale);
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  const { id, name, prefix, allowedOrigins, rateLimit, dailyQuota, usage } = describeApiKey(key);
+  res.status(200).json({ id, name, prefix, allowedOrigins, rateLimit, dailyQuota, usage });
+}
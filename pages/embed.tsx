@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { Send } from 'lucide-react';
+import { buildRequestHistory, chatErrorMessage, isChatAnswer, postWidgetAsk } from '@/lib/chatClient';
+import type { HistoryMessage } from '@/lib/conversation';
+import type { Citation } from '@/lib/citations';
+import { DEFAULT_LOCALE, Locale, getMessages, isLocale } from '@/lib/i18n';
+import { MessagesContext } from '@/lib/i18n/context';
+import { findApiKeyByWidgetKey, normalizeOrigin } from '@/lib/apiKeys';
+import { checkEmbedParent, issueWidgetToken } from '@/lib/apiAuth';
+import Markdown from '@/components/Markdown';
+import { FootnoteMarker, SourcesList } from '@/components/Citations';
+
+interface EmbedProps {
+  widgetToken: string | null; // null when the key or the framing site isn't allowed
+  theme: 'light' | 'dark';
+  accent: string;
+  title: string;
+  locale: Locale;
+}
+
+interface WidgetMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations?: Citation[];
+  isError?: boolean;
+}
+
+const DEFAULT_ACCENT = '#4f46e5';
+const MAX_TITLE_LENGTH = 60;
+
+// The widget's chat, loaded in an iframe by public/widget.js. Options come
+// from the URL: key (the publishable widget key, never the secret one), origin
+// (the framing site, which must be one of the key's allowed origins), theme
+// (light or dark), accent (#rrggbb), title and locale. Only that site may frame
+// the page, and its questions carry a token tied to the key and that site.
+export const getServerSideProps: GetServerSideProps<EmbedProps> = async ({ query, req, res }) => {
+  const param = (name: string) => (typeof query[name] === 'string' ? query[name] as string : '');
+  const record = findApiKeyByWidgetKey(param('key'));
+  const parentOrigin = normalizeOrigin(param('origin'));
+  const allowed = record && parentOrigin && checkEmbedParent(req, record, parentOrigin) ? parentOrigin : null;
+
+  res.setHeader('Content-Security-Policy', `frame-ancestors ${allowed || "'none'"}`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  return {
+    props: {
+      widgetToken: record && allowed ? issueWidgetToken(record, allowed) : null,
+      theme: param('theme') === 'dark' ? 'dark' : 'light',
+      accent: /^#[0-9a-fA-F]{6}$/.test(param('accent')) ? param('accent') : DEFAULT_ACCENT,
+      title: param('title').slice(0, MAX_TITLE_LENGTH),
+      locale: isLocale(param('locale')) ? param('locale') as Locale : DEFAULT_LOCALE
+    }
+  };
+};
+
+export default function Embed({ widgetToken, theme, accent, title, locale }: EmbedProps) {
+  const t = getMessages(locale);
+  const [messages, setMessages] = useState<WidgetMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [conversationId, setConversationId] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const dark = theme === 'dark';
+
+  useEffect(() => {
+    if (endRef.current) {
+      endRef.current.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, isLoading]);
+
+  const send = async () => {
+    const question = input.trim();
+    if (!widgetToken || !question || isLoading) return;
+
+    const history = buildRequestHistory(messages
+      .filter(message => !message.isError)
+      .map((message): HistoryMessage => ({ role: message.role, content: message.text })));
+    setMessages(current => current.concat({ id: `${Date.now()}-q`, role: 'user', text: question }));
+    setInput('');
+    setIsLoading(true);
+
+    let reply: WidgetMessage;
+    try {
+      const { status, data } = await postWidgetAsk(widgetToken, { message: question, history, conversationId, locale });
+      if (status === 200 && isChatAnswer(data)) {
+        setConversationId(data.conversationId);
+        reply = { id: data.answerId || `${Date.now()}-a`, role: 'assistant', text: data.response, citations: data.citations };
+      } else {
+        reply = { id: `${Date.now()}-e`, role: 'assistant', text: chatErrorMessage(status, data, t), isError: true };
+      }
+    } catch (error) {
+      console.error('Failed to ask:', error);
+      reply = { id: `${Date.now()}-e`, role: 'assistant', text: t.errors.UPSTREAM_ERROR, isError: true };
+    }
+    setMessages(current => current.concat(reply));
+    setIsLoading(false);
+  };
+
+  return (
+    <MessagesContext.Provider value={t}>
+      <Head>
+        <title>{title || t.widget.title}</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className={`h-screen flex flex-col text-sm ${dark ? 'bg-gray-900 text-gray-100' : 'bg-white text-gray-900'}`}>
+        <div className="px-4 py-3 font-semibold text-white" style={{ backgroundColor: accent }}>
+          {title || t.widget.title}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-3">
+          {!widgetToken && <p className="text-red-600">{t.widget.notSetUp}</p>}
+          {widgetToken && messages.length === 0 && <p className={dark ? 'text-gray-400' : 'text-gray-600'}>{t.widget.intro}</p>}
+
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] p-3 rounded-2xl ${
+                  message.role === 'user'
+                    ? 'text-white'
+                    : message.isError
+                      ? 'bg-red-50 text-red-800 border border-red-200'
+                      : dark ? 'bg-gray-800' : 'bg-gray-100'
+                }`}
+                style={message.role === 'user' ? { backgroundColor: accent } : undefined}
+              >
+                {message.role === 'user' || message.isError ? (
+                  <p className="whitespace-pre-wrap">{message.text}</p>
+                ) : (
+                  <Markdown
+                    text={message.text}
+                    renderFootnote={(index, key) => {
+                      const citation = message.citations?.find(c => c.index === index);
+                      return citation
+                        ? <FootnoteMarker key={key} messageId={message.id} citation={citation} />
+                        : `[${index}]`;
+                    }}
+                  />
+                )}
+                {message.citations && <SourcesList messageId={message.id} citations={message.citations} />}
+              </div>
+            </div>
+          ))}
+
+          {isLoading && <p className={`italic ${dark ? 'text-gray-400' : 'text-gray-500'}`}>{t.thinking}</p>}
+          <div ref={endRef} />
+        </div>
+
+        <form
+          className={`flex gap-2 p-3 border-t ${dark ? 'border-gray-700' : 'border-gray-200'}`}
+          onSubmit={event => {
+            event.preventDefault();
+            send();
+          }}
+        >
+          <input
+            type="text"
+            value={input}
+            onChange={event => setInput(event.target.value)}
+            placeholder={t.inputPlaceholder}
+            aria-label={t.inputPlaceholder}
+            disabled={!widgetToken}
+            maxLength={1000}
+            className={`flex-1 min-w-0 p-2 rounded-lg border outline-none focus:ring-2 focus:ring-blue-500 ${
+              dark ? 'bg-gray-800 border-gray-700 text-gray-100' : 'bg-white border-gray-200'
+            }`}
+          />
+          <button
+            type="submit"
+            disabled={!widgetToken || !input.trim() || isLoading}
+            aria-label={t.sendMessage}
+            className="px-3 py-2 text-white rounded-lg disabled:opacity-50"
+            style={{ backgroundColor: accent }}
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        </form>
+        <Link
+          href="/"
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`px-3 pb-2 text-xs text-center ${dark ? 'text-gray-500' : 'text-gray-400'} hover:underline`}
+        >
+          {t.widget.poweredBy}
+        </Link>
+      </div>
+    </MessagesContext.Provider>
+  );
+}
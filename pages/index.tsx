@@ -1,19 +1,48 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, MessageCircle, Clock, Sparkles } from 'lucide-react';
-import axios from 'axios';
+import { Send, MessageCircle, Clock, Sparkles, Square, Menu, Languages } from 'lucide-react';
 import Head from 'next/head';
-
-interface Message {
-  id: string;
-  text: string;
-  isUser: boolean;
-  timestamp: Date;
-  isError?: boolean;
-}
+import { Announcement, buildRequestHistory, chatErrorMessage, fetchAnnouncements, isChatAnswer, postChatStream } from '@/lib/chatClient';
+import { MAX_MESSAGE_LENGTH } from '@/lib/chatRequest';
+import type { HistoryMessage } from '@/lib/conversation';
+import type { UserLocation } from '@/lib/places';
+import { DEFAULT_LOCALE, LOCALES, Locale, getMessages, matchLocale } from '@/lib/i18n';
+import { MessagesContext } from '@/lib/i18n/context';
+import {
+  Conversation,
+  Message,
+  WELCOME_MESSAGE_ID,
+  createConversation,
+  downloadFile,
+  exportConversationJson,
+  exportConversationMarkdown,
+  exportFilename,
+  isDefaultTitle,
+  loadConversations,
+  loadLocale,
+  loadLocation,
+  saveConversations,
+  saveLocale,
+  saveLocation,
+  titleFromMessages,
+} from '@/lib/chatStorage';
+import { FootnoteMarker, SourcesList } from '@/components/Citations';
+import Markdown from '@/components/Markdown';
+import ReasoningDisclosure from '@/components/ReasoningDisclosure';
+import ConversationSidebar from '@/components/ConversationSidebar';
+import AnswerFeedback from '@/components/AnswerFeedback';
+import AnnouncementBanner from '@/components/AnnouncementBanner';
+import LocationSetting from '@/components/LocationSetting';
+import NotificationSettings from '@/components/NotificationSettings';
 
 interface RateLimitInfo {
   isLimited: boolean;
   resetTime?: number;
+  limit?: number;
+  remaining?: number;
+}
+
+function minutesSince(cachedAt: string): number {
+  return Math.max(0, Math.floor((Date.now() - new Date(cachedAt).getTime()) / 60000));
 }
 
 export default function Home() {
@@ -22,17 +51,18 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo>({ isLimited: false });
   const [countdown, setCountdown] = useState(0);
+  const [conversationId, setConversationId] = useState<string | undefined>();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [location, setLocation] = useState<UserLocation | null>(null);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const sampleQuestions = [
-    "When is the GP surgery opening?",
-    "What are the upcoming town council meetings?",
-    "Where is the nearest Tesco?",
-    "When will the secondary school be ready?",
-    "What bus services are available to Cambridge?",
-    "Are there any community events this month?"
-  ];
+  const t = getMessages(locale);
 
   useEffect(() => {
     scrollToBottom();
@@ -49,7 +79,7 @@ export default function Home() {
         setCountdown(timeLeft);
         
         if (timeLeft === 0) {
-          setRateLimitInfo({ isLimited: false });
+          setRateLimitInfo(prev => ({ isLimited: false, limit: prev.limit }));
           setCountdown(0);
         }
       }, 1000);
@@ -61,16 +91,66 @@ export default function Home() {
   }, [rateLimitInfo]);
 
   useEffect(() => {
-    // Add welcome message on component mount
-    const welcomeMessage: Message = {
-      id: '1',
-      text: "Hello! Welcome to AMA Northstowe 👋\n\nI'm here to help you with questions about our community. You can ask me about local services, upcoming events, transport links, developments, and anything else related to life in Northstowe.\n\nTry asking something like \"When is the GP surgery opening?\" or click on one of the example questions below!",
-      isUser: false,
-      timestamp: new Date(),
-    };
-    setMessages([welcomeMessage]);
+    // Restore saved conversations, or start the first one
+    const saved = loadConversations();
+    const first = saved ? null : createConversation();
+    const state = saved || { activeId: first!.id, conversations: [first!] };
+    const active = state.conversations.find(conversation => conversation.id === state.activeId)!;
+
+    setConversations(state.conversations);
+    setActiveId(state.activeId);
+    setMessages(active.messages);
+    setConversationId(active.serverConversationId);
+  }, []);
+
+  useEffect(() => {
+    fetchAnnouncements().then(setAnnouncements);
+    setLocation(loadLocation());
+    setLocale(loadLocale() || matchLocale(navigator.languages) || DEFAULT_LOCALE);
   }, []);
 
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const changeLocale = (value: Locale) => {
+    setLocale(value);
+    saveLocale(value);
+  };
+
+  const changeLocation = (value: UserLocation | null) => {
+    setLocation(value);
+    saveLocation(value);
+  };
+
+  // Fold the open conversation back into the list. Answers are folded in once
+  // they finish streaming rather than on every token.
+  useEffect(() => {
+    if (!activeId || messages.some(message => message.isStreaming)) return;
+
+    setConversations(prev => prev
+      .map(conversation => {
+        if (conversation.id !== activeId ||
+          (conversation.messages === messages && conversation.serverConversationId === conversationId)) {
+          return conversation;
+        }
+        return {
+          ...conversation,
+          messages,
+          serverConversationId: conversationId,
+          title: isDefaultTitle(conversation.title) ? titleFromMessages(messages) : conversation.title,
+          updatedAt: messages.length !== conversation.messages.length ? new Date() : conversation.updatedAt,
+        };
+      })
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+  }, [messages, conversationId, activeId]);
+
+  useEffect(() => {
+    if (activeId && conversations.length > 0) {
+      saveConversations({ activeId, conversations });
+    }
+  }, [conversations, activeId]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -85,7 +165,7 @@ export default function Home() {
         const remainingTime = Math.ceil((rateLimitInfo.resetTime - now) / 1000);
         const errorMessage: Message = {
           id: Date.now().toString(),
-          text: `Please wait ${remainingTime} seconds before sending another message.`,
+          text: t.waitBeforeSending(remainingTime),
           isUser: false,
           timestamp: new Date(),
           isError: true,
@@ -97,6 +177,12 @@ export default function Home() {
       }
     }
 
+    // Prior turns for follow-up context (skip the welcome message and errors),
+    // within the limits the server accepts
+    const history = buildRequestHistory(messages
+      .filter(message => message.id !== WELCOME_MESSAGE_ID && !message.isError && message.text)
+      .map((message): HistoryMessage => ({ role: message.isUser ? 'user' : 'assistant', content: message.text })));
+
     const userMessage: Message = {
       id: Date.now().toString(),
       text: textToSend,
@@ -108,46 +194,176 @@ export default function Home() {
     setInput('');
     setIsLoading(true);
 
-    try {
-      const response = await axios.post('/api/chat', {
-        message: textToSend,
+    const assistantId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Grow the assistant bubble as answer and reasoning tokens arrive
+    const appendStreamed = (field: 'text' | 'reasoning', content: string) => {
+      setMessages(prev => {
+        if (!prev.some(message => message.id === assistantId)) {
+          return [...prev, {
+            id: assistantId,
+            text: '',
+            isUser: false,
+            timestamp: new Date(),
+            isStreaming: true,
+            [field]: content,
+          }];
+        }
+        return prev.map(message =>
+          message.id === assistantId
+            ? { ...message, [field]: (message[field] || '') + content }
+            : message
+        );
       });
+    };
+
+    try {
+      const { status, data, rateLimit } = await postChatStream(
+        { message: textToSend, history, conversationId, location: location || undefined, locale },
+        {
+          onToken: content => appendStreamed('text', content),
+          onReasoning: content => appendStreamed('reasoning', content),
+        },
+        controller.signal
+      );
+
+      // Drive the remaining-questions hint and countdown from the server's headers
+      if (rateLimit) {
+        setRateLimitInfo({
+          isLimited: (status === 429 && !isChatAnswer(data) && !!data.rateLimited) || rateLimit.remaining === 0,
+          resetTime: rateLimit.resetTime,
+          limit: rateLimit.limit,
+          remaining: rateLimit.remaining,
+        });
+      }
+
+      if (status === 200 && isChatAnswer(data)) {
+        if (data.conversationId) {
+          setConversationId(data.conversationId);
+        }
+
+        const assistantMessage: Message = {
+          id: assistantId,
+          text: data.response,
+          isUser: false,
+          timestamp: new Date(),
+          citations: data.citations,
+          reasoning: data.reasoning,
+          cachedAt: data.cachedAt,
+          answerId: data.answerId,
+        };
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: response.data.response,
+        setMessages(prev => [
+          ...prev.filter(message => message.id !== assistantId),
+          assistantMessage,
+        ]);
+        return;
+      }
+
+      const errorMessage: Message = {
+        id: (Date.now() + 2).toString(),
+        text: chatErrorMessage(status, data, t),
         isUser: false,
         timestamp: new Date(),
-        isError: response.data.notRelated || false,
+        isError: true,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
-
+      setMessages(prev => [
+        ...prev.map(message => message.id === assistantId ? { ...message, isStreaming: false } : message),
+        errorMessage,
+      ]);
     } catch (error: any) {
-      let errorText = 'Sorry, something went wrong. Please try again.';
-      
-      if (error.response?.status === 429) {
-        errorText = error.response.data.error || 'Too many requests. Please wait before trying again.';
-        if (error.response.data.rateLimited) {
-          const resetTime = Date.now() + (5 * 60 * 1000); // 5 minutes from now
-          setRateLimitInfo({ isLimited: true, resetTime });
-        }
+      if (error?.name === 'AbortError') {
+        // Keep whatever arrived before the user pressed stop
+        setMessages(prev => prev.map(message =>
+          message.id === assistantId ? { ...message, isStreaming: false, isStopped: true } : message
+        ));
+        return;
       }
 
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: errorText,
+        id: (Date.now() + 2).toString(),
+        text: t.errors.UPSTREAM_ERROR,
         isUser: false,
         timestamp: new Date(),
         isError: true,
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [
+        ...prev.map(message => message.id === assistantId ? { ...message, isStreaming: false } : message),
+        errorMessage,
+      ]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const rateAnswer = (id: string, rating: 'up' | 'down') => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, feedback: rating } : message));
+  };
+
+  const stopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const openConversation = (conversation: Conversation) => {
+    setActiveId(conversation.id);
+    setMessages(conversation.messages);
+    setConversationId(conversation.serverConversationId);
+    setShowSidebar(false);
+  };
+
+  const selectConversation = (id: string) => {
+    const conversation = conversations.find(candidate => candidate.id === id);
+    if (conversation && !isLoading) {
+      openConversation(conversation);
+    }
+  };
+
+  const startConversation = () => {
+    if (isLoading) return;
+    // An untouched conversation is reused rather than piling up empty ones
+    if (!messages.some(message => message.isUser)) {
+      setShowSidebar(false);
+      return;
+    }
+    const conversation = createConversation();
+    setConversations(prev => [conversation, ...prev]);
+    openConversation(conversation);
+  };
+
+  const renameConversation = (id: string, title: string) => {
+    setConversations(prev => prev.map(conversation =>
+      conversation.id === id ? { ...conversation, title } : conversation
+    ));
+  };
+
+  const deleteConversation = (id: string) => {
+    const remaining = conversations.filter(conversation => conversation.id !== id);
+    if (id !== activeId) {
+      setConversations(remaining);
+      return;
+    }
+
+    const next = remaining[0] || createConversation();
+    setConversations(remaining.length > 0 ? remaining : [next]);
+    openConversation(next);
+  };
+
+  const exportConversation = (id: string, format: 'markdown' | 'json') => {
+    const conversation = conversations.find(candidate => candidate.id === id);
+    if (!conversation) return;
+
+    if (format === 'markdown') {
+      downloadFile(exportFilename(conversation, 'md'), exportConversationMarkdown(conversation), 'text/markdown;charset=utf-8');
+    } else {
+      downloadFile(exportFilename(conversation, 'json'), exportConversationJson(conversation), 'application/json');
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage();
@@ -158,24 +374,33 @@ export default function Home() {
   };
 
   return (
-    <>
+    <MessagesContext.Provider value={t}>
       <Head>
-        <title>AMA Northstowe - Your Local Community Assistant</title>
-        <meta name="description" content="Ask questions about Northstowe - local services, events, transport, and community information." />
+        <title>{t.pageTitle}</title>
+        <meta name="description" content={t.pageDescription} />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <link rel="icon" href="/favicon.ico" />
         <meta property="og:title" content="AMA Northstowe" />
-        <meta property="og:description" content="Ask questions about Northstowe - local services, events, transport, and community information." />
+        <meta property="og:description" content={t.pageDescription} />
         <meta property="og:type" content="website" />
         <meta name="twitter:card" content="summary" />
         <meta name="twitter:title" content="AMA Northstowe" />
-        <meta name="twitter:description" content="Ask questions about Northstowe - local services, events, transport, and community information." />
+        <meta name="twitter:description" content={t.pageDescription} />
       </Head>
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
       {/* Header */}
       <div className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-10">
-        <div className="max-w-4xl mx-auto px-4 py-4">
+        <div className="max-w-6xl mx-auto px-4 py-4">
           <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setShowSidebar(show => !show)}
+              aria-label={t.showConversations}
+              aria-expanded={showSidebar}
+              className="md:hidden p-2 text-gray-600 hover:text-gray-900"
+            >
+              <Menu className="h-6 w-6" />
+            </button>
             <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl">
               <MessageCircle className="h-6 w-6 text-white" />
             </div>
@@ -183,14 +408,45 @@ export default function Home() {
               <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
                 AMA Northstowe
               </h1>
-              <p className="text-sm text-gray-600">Your local community assistant</p>
+              <p className="text-sm text-gray-600">{t.tagline}</p>
             </div>
+            <LocationSetting location={location} onChange={changeLocation} />
+            <NotificationSettings locale={locale} />
+            <label className="flex items-center gap-1 text-sm text-gray-600">
+              <Languages className="h-4 w-4" />
+              <select
+                value={locale}
+                onChange={event => changeLocale(event.target.value as Locale)}
+                aria-label={t.languageLabel}
+                className="bg-transparent outline-none focus:ring-2 focus:ring-blue-500 rounded"
+              >
+                {LOCALES.map(option => (
+                  <option key={option} value={option}>{getMessages(option).languageName}</option>
+                ))}
+              </select>
+            </label>
           </div>
         </div>
       </div>
 
+      <div className="max-w-6xl mx-auto px-4 py-6 md:flex md:gap-4 md:items-start">
+        {/* Conversations */}
+        <aside className={`${showSidebar ? 'block' : 'hidden'} md:block md:w-64 flex-shrink-0 mb-4 md:mb-0`}>
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={activeId}
+            disabled={isLoading}
+            onSelect={selectConversation}
+            onNew={startConversation}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+            onExport={exportConversation}
+          />
+        </aside>
+
       {/* Chat Container */}
-      <div className="max-w-4xl mx-auto px-4 py-6">
+      <div className="flex-1 min-w-0">
+        <AnnouncementBanner announcements={announcements} />
         <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 overflow-hidden">
           {/* Messages Area */}
           <div className="h-[60vh] overflow-y-auto p-6 space-y-4">
@@ -208,28 +464,60 @@ export default function Home() {
                       : 'bg-gray-100 text-gray-800'
                   } shadow-sm`}
                 >
-                  <p className="whitespace-pre-wrap text-sm leading-relaxed">
-                    {message.text}
-                  </p>
+                  {message.reasoning && (
+                    <ReasoningDisclosure
+                      reasoning={message.reasoning}
+                      isThinking={!!message.isStreaming && !message.text}
+                    />
+                  )}
+                  {message.isUser || message.isError ? (
+                    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+                      {message.text}
+                    </p>
+                  ) : message.isStreaming && !message.text ? (
+                    <p className="text-sm text-gray-500 italic">{t.thinking}</p>
+                  ) : (
+                    <Markdown
+                      text={message.id === WELCOME_MESSAGE_ID ? t.welcome : message.text}
+                      renderFootnote={(index, key) => {
+                        const citation = message.citations?.find(c => c.index === index);
+                        return citation
+                          ? <FootnoteMarker key={key} messageId={message.id} citation={citation} />
+                          : `[${index}]`;
+                      }}
+                    />
+                  )}
+                  {message.citations && (
+                    <SourcesList messageId={message.id} citations={message.citations} />
+                  )}
                   <div className={`text-xs mt-2 opacity-70 ${message.isUser ? 'text-right' : 'text-left'}`}>
                     {message.timestamp.toLocaleTimeString([], { 
                       hour: '2-digit', 
                       minute: '2-digit' 
                     })}
+                    {message.isStopped && ` • ${t.stopped}`}
+                    {message.cachedAt && ` • ${t.savedAnswer(t.answerAge(minutesSince(message.cachedAt)))}`}
                   </div>
+                  {message.answerId && !message.isStreaming && (
+                    <AnswerFeedback
+                      answerId={message.answerId}
+                      rating={message.feedback}
+                      onRated={rating => rateAnswer(message.id, rating)}
+                    />
+                  )}
                 </div>
               </div>
             ))}
 
             {/* Loading indicator */}
-            {isLoading && (
+            {isLoading && !messages.some(message => message.isStreaming) && (
               <div className="chat-message flex justify-start">
                 <div className="bg-gray-100 p-4 rounded-2xl shadow-sm">
                   <div className="flex items-center gap-2">
                     <div className="animate-typing">●</div>
                     <div className="animate-typing" style={{ animationDelay: '0.2s' }}>●</div>
                     <div className="animate-typing" style={{ animationDelay: '0.4s' }}>●</div>
-                    <span className="ml-2 text-sm text-gray-600">Thinking...</span>
+                    <span className="ml-2 text-sm text-gray-600">{t.thinking}</span>
                   </div>
                 </div>
               </div>
@@ -244,10 +532,10 @@ export default function Home() {
               <div className="mb-4">
                 <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
                   <Sparkles className="h-4 w-4" />
-                  Try asking about:
+                  {t.tryAsking}
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                  {sampleQuestions.map((question, index) => (
+                  {t.sampleQuestions.map((question, index) => (
                     <button
                       key={index}
                       onClick={() => handleSampleQuestion(question)}
@@ -269,8 +557,8 @@ export default function Home() {
                   <Clock className="h-4 w-4" />
                   <span className="text-sm">
                     {countdown > 0 
-                      ? `Rate limit reached. You can ask another question in ${countdown} seconds.`
-                      : 'Rate limit reached. Please wait a moment.'
+                      ? t.rateLimitCountdown(t.countdown(countdown))
+                      : t.rateLimitWait
                     }
                   </span>
                 </div>
@@ -283,27 +571,50 @@ export default function Home() {
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder="Ask me anything about Northstowe..."
+                maxLength={MAX_MESSAGE_LENGTH}
+                placeholder={t.inputPlaceholder}
                 className="flex-1 p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white/80 backdrop-blur-sm"
                 disabled={isLoading || rateLimitInfo.isLimited}
               />
-              <button
-                type="submit"
-                disabled={isLoading || !input.trim() || rateLimitInfo.isLimited}
-                className="px-6 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center gap-2 shadow-lg hover:shadow-xl"
-              >
-                <Send className="h-4 w-4" />
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopStreaming}
+                  aria-label={t.stopGenerating}
+                  className="px-6 py-4 bg-gray-700 text-white rounded-xl hover:bg-gray-800 transition-all duration-200 flex items-center gap-2 shadow-lg hover:shadow-xl"
+                >
+                  <Square className="h-4 w-4" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim() || rateLimitInfo.isLimited}
+                  aria-label={t.sendMessage}
+                  className="px-6 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center gap-2 shadow-lg hover:shadow-xl"
+                >
+                  <Send className="h-4 w-4" />
+                </button>
+              )}
             </form>
+
+            {!rateLimitInfo.isLimited && rateLimitInfo.remaining !== undefined && rateLimitInfo.limit !== undefined && (
+              <p className={`mt-2 text-xs ${rateLimitInfo.remaining <= 1 ? 'text-yellow-700' : 'text-gray-500'}`}>
+                {t.questionsLeft(rateLimitInfo.remaining, rateLimitInfo.limit)}
+                {rateLimitInfo.remaining <= 1 && rateLimitInfo.resetTime
+                  ? t.moreAvailableAt(new Date(rateLimitInfo.resetTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }))
+                  : ''}
+              </p>
+            )}
           </div>
         </div>
 
         {/* Footer */}
         <div className="text-center mt-6 text-sm text-gray-600">
-          <p>Powered by AI • For Northstowe residents</p>
+          <p>{t.footer}</p>
         </div>
       </div>
       </div>
-    </>
+      </div>
+    </MessagesContext.Provider>
   );
 }
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Bell, BellOff, Languages } from 'lucide-react';
+import { ReminderSubscription, apiErrorMessage, sendSubscriptionRequest } from '@/lib/chatClient';
+import { loadLocale } from '@/lib/chatStorage';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+import { DEFAULT_LOCALE, LOCALES, Locale, getMessages } from '@/lib/i18n';
+import { MessagesContext } from '@/lib/i18n/context';
+import type { NotificationTopic } from '@/lib/subscriptions';
+import ReminderFields from '@/components/ReminderFields';
+
+type Status = 'loading' | 'ready' | 'working' | 'confirmed' | 'saved' | 'unsubscribed' | 'not-found' | 'failed';
+
+// Where the links in reminder emails go: ?token=<token> to change reminders,
+// with &action=confirm to confirm an address or &action=unsubscribe to stop.
+// Confirming and unsubscribing happen here rather than on GET, so mail
+// scanners that open links can't do either.
+export default function RemindersPage() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const action = router.query.action;
+  const [subscription, setSubscription] = useState<ReminderSubscription | null>(null);
+  const [topics, setTopics] = useState<NotificationTopic[]>([]);
+  const [street, setStreet] = useState('');
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [status, setStatus] = useState<Status>('loading');
+  const [failure, setFailure] = useState<Partial<ApiErrorBody>>({});
+  const t = getMessages(locale);
+
+  useEffect(() => {
+    setLocale(loadLocale() || DEFAULT_LOCALE);
+  }, []);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token) {
+      setStatus('not-found');
+      return;
+    }
+
+    const load = async () => {
+      const result = action === 'confirm'
+        ? await sendSubscriptionRequest('POST', '/confirm', token)
+        : await sendSubscriptionRequest('GET', '', token);
+      if (!result.data.subscription) {
+        setFailure(result.data);
+        setStatus(result.status === 404 ? 'not-found' : 'failed');
+        return;
+      }
+      const loaded: ReminderSubscription = result.data.subscription;
+      setSubscription(loaded);
+      setTopics(loaded.topics);
+      setStreet(loaded.street || '');
+      setLocale(loaded.locale);
+      setStatus(action === 'confirm' ? 'confirmed' : 'ready');
+    };
+    load();
+  }, [router.isReady, token, action]);
+
+  const save = async () => {
+    setStatus('working');
+    const result = await sendSubscriptionRequest('PUT', '', token, { topics, street: street.trim() || undefined, locale });
+    if (result.status === 200) {
+      setStatus('saved');
+    } else {
+      setFailure(result.data);
+      setStatus('failed');
+    }
+  };
+
+  const unsubscribe = async () => {
+    setStatus('working');
+    const result = await sendSubscriptionRequest('DELETE', '', token);
+    if (result.status === 200 || result.status === 404) {
+      setStatus('unsubscribed');
+    } else {
+      setFailure(result.data);
+      setStatus('failed');
+    }
+  };
+
+  const showForm = !!subscription && status !== 'unsubscribed' && action !== 'unsubscribe';
+
+  return (
+    <MessagesContext.Provider value={t}>
+      <Head>
+        <title>{`${t.notifications.pageTitle} - AMA Northstowe`}</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-md mx-auto px-4 py-6 space-y-4 text-sm">
+          <div className="flex items-center gap-4">
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              {t.notifications.pageTitle}
+            </h1>
+            <Link href="/" className="ml-auto text-blue-700 hover:underline">AMA Northstowe</Link>
+          </div>
+
+          {status === 'not-found' && <p className="p-3 bg-white border border-gray-200 rounded-lg text-gray-700">{t.notifications.notFound}</p>}
+          {status === 'confirmed' && <p className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800">{t.notifications.confirmed}</p>}
+          {status === 'unsubscribed' && <p className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800">{t.notifications.unsubscribed}</p>}
+
+          {subscription && action === 'unsubscribe' && status !== 'unsubscribed' && (
+            <div className="p-4 space-y-3 bg-white border border-gray-200 rounded-xl">
+              <p className="text-gray-700">{subscription.email}</p>
+              <button
+                type="button"
+                onClick={unsubscribe}
+                disabled={status === 'working'}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50"
+              >
+                <BellOff className="h-4 w-4" />
+                {t.notifications.unsubscribe}
+              </button>
+            </div>
+          )}
+
+          {showForm && (
+            <form
+              className="p-4 space-y-3 bg-white border border-gray-200 rounded-xl"
+              onSubmit={event => {
+                event.preventDefault();
+                save();
+              }}
+            >
+              {subscription.email && <p className="text-gray-700">{subscription.email}</p>}
+              <ReminderFields topics={topics} street={street} onTopicsChange={setTopics} onStreetChange={setStreet} />
+
+              <label className="flex items-center gap-1 text-gray-600">
+                <Languages className="h-4 w-4" />
+                <select
+                  value={locale}
+                  onChange={event => setLocale(event.target.value as Locale)}
+                  aria-label={t.languageLabel}
+                  className="bg-transparent outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                >
+                  {LOCALES.map(option => (
+                    <option key={option} value={option}>{getMessages(option).languageName}</option>
+                  ))}
+                </select>
+              </label>
+
+              <button
+                type="submit"
+                disabled={topics.length === 0 || (topics.indexOf('bins') !== -1 && !street.trim()) || status === 'working'}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg disabled:opacity-50"
+              >
+                <Bell className="h-4 w-4" />
+                {t.notifications.save}
+              </button>
+              <button type="button" onClick={unsubscribe} disabled={status === 'working'} className="flex items-center gap-1 text-gray-600 hover:text-gray-900">
+                <BellOff className="h-4 w-4" />
+                {t.notifications.unsubscribe}
+              </button>
+            </form>
+          )}
+
+          {status === 'saved' && <p className="text-green-700">{t.notifications.saved}</p>}
+          {status === 'failed' && <p className="text-red-700">{apiErrorMessage(failure, t, t.notifications.failed)}</p>}
+        </div>
+      </div>
+    </MessagesContext.Provider>
+  );
+}
@@ -0,0 +1,73 @@
+// AMA Northstowe widget for community sites. Add it where the chat should go:
+//
+//   <script src="https://<ama-site>/widget.js" data-key="amw_..." async></script>
+//
+// Options, as data- attributes on the script tag:
+//   data-key      the site's widget key (required); never the secret ama_ key
+//   data-theme    light (default) or dark
+//   data-accent   colour for the header, button and questions, e.g. #0f766e
+//   data-title    heading shown above the chat
+//   data-locale   en, pl or ro
+//   data-position right (default) or left, for the floating button
+//   data-target   CSS selector of an element to show the chat in, instead
+//                 of the floating button; data-height sets its height
+(function () {
+  var script = document.currentScript;
+  if (!script || !script.getAttribute('data-key')) {
+    return;
+  }
+
+  var base = new URL(script.src).origin;
+  var accent = script.getAttribute('data-accent') || '#4f46e5';
+  var title = script.getAttribute('data-title') || '';
+  var params = ['key', 'theme', 'accent', 'title', 'locale']
+    .filter(function (name) { return script.getAttribute('data-' + name); })
+    .map(function (name) { return name + '=' + encodeURIComponent(script.getAttribute('data-' + name)); })
+    .concat('origin=' + encodeURIComponent(window.location.origin))
+    .join('&');
+
+  var frame = document.createElement('iframe');
+  frame.src = base + '/embed?' + params;
+  frame.title = title || 'AMA Northstowe';
+  frame.style.border = '0';
+  frame.style.width = '100%';
+  frame.style.height = '100%';
+  frame.style.colorScheme = 'normal';
+
+  var target = script.getAttribute('data-target');
+  if (target) {
+    var container = document.querySelector(target);
+    if (container) {
+      frame.style.height = script.getAttribute('data-height') || '520px';
+      frame.style.borderRadius = '12px';
+      container.appendChild(frame);
+    }
+    return;
+  }
+
+  var side = script.getAttribute('data-position') === 'left' ? 'left' : 'right';
+
+  var panel = document.createElement('div');
+  panel.style.cssText = 'position:fixed;bottom:88px;' + side + ':16px;width:360px;height:520px;' +
+    'max-width:calc(100vw - 32px);max-height:calc(100vh - 120px);border-radius:12px;overflow:hidden;' +
+    'box-shadow:0 10px 30px rgba(0,0,0,0.25);background:#fff;z-index:2147483646;display:none;';
+  panel.appendChild(frame);
+
+  var button = document.createElement('button');
+  button.type = 'button';
+  button.setAttribute('aria-label', title || 'Ask about Northstowe');
+  button.setAttribute('aria-expanded', 'false');
+  button.style.cssText = 'position:fixed;bottom:16px;' + side + ':16px;width:56px;height:56px;border:0;' +
+    'border-radius:50%;cursor:pointer;color:#fff;background:' + accent + ';' +
+    'box-shadow:0 4px 12px rgba(0,0,0,0.25);z-index:2147483647;display:flex;align-items:center;justify-content:center;';
+  button.innerHTML = '<svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" ' +
+    'stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><path d="M7.9 20A9 9 0 1 0 4 16.1L2 22Z"/></svg>';
+  button.addEventListener('click', function () {
+    var open = panel.style.display === 'none';
+    panel.style.display = open ? 'block' : 'none';
+    button.setAttribute('aria-expanded', open ? 'true' : 'false');
+  });
+
+  document.body.appendChild(panel);
+  document.body.appendChild(button);
+})();
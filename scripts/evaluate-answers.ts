@@ -0,0 +1,222 @@
+// Runs the versioned question set in data/eval/questions.json through the
+// /api/chat handler against recorded provider responses, and reports gating
+// accuracy, expected facts and citation compliance. Exits 1 on any failure.
+// Usage: npm run eval:answers [-- --case <id>] [-- --record]
+// --record calls the real providers in LLM_CHAIN and saves their responses as
+// the new fixtures, so it needs API keys; replaying needs no network.
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import evalSet from '../data/eval/questions.json';
+import handler from '../pages/api/chat';
+import { DEFAULT_LLM_CHAIN } from '../lib/llm';
+import { loadFixture } from '../lib/llm/replay';
+import { foldText } from '../lib/topicClassifier';
+import { Citation, isTrustedDomain } from '../lib/citations';
+import type { ChatRequestBody } from '../lib/chatRequest';
+
+interface EvalCase {
+  id: string;
+  question: string;
+  locale?: ChatRequestBody['locale'];
+  history?: ChatRequestBody['history'];
+  location?: ChatRequestBody['location'];
+  expect: 'answer' | 'refuse';
+  refusalCode?: string; // e.g. OFF_TOPIC or PROMPT_INJECTION
+  source?: string; // e.g. knowledge-base or bins; "llm" for a model answer
+  // Each entry must appear in the answer; an array entry means any one of them
+  facts?: (string | string[])[];
+  // Citations must all come from these domains (or their subdomains)
+  allowedDomains?: string[];
+  minCitations?: number;
+}
+
+interface EvalSet {
+  version: number;
+  cases: EvalCase[];
+}
+
+// What the handler sends back: an answer, or an error body for refusals
+interface ChatReply {
+  response?: string;
+  source?: string;
+  citations?: Citation[];
+  error?: string;
+  code?: string;
+}
+
+interface CaseResult {
+  id: string;
+  gating: boolean;
+  facts?: boolean;
+  citations?: boolean;
+  problems: string[];
+}
+
+const recording = process.argv.indexOf('--record') !== -1;
+const caseFlag = process.argv.indexOf('--case');
+const onlyCase = caseFlag !== -1 ? process.argv[caseFlag + 1] : undefined;
+
+// Every model call goes through the replay wrapper, and nothing the handler
+// writes (feedback, announcements, rate limits) touches the real .data files.
+// Bin questions are answered from the example rounds in data/eval/bins.
+const wrapChain = (chain: string) => chain.split(',').map(entry => `replay:${entry.trim()}`).join(',');
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ama-eval-'));
+process.env.LLM_REPLAY_MODE = recording ? 'record' : 'replay';
+process.env.LLM_CHAIN = wrapChain(process.env.LLM_CHAIN || DEFAULT_LLM_CHAIN);
+process.env.TOPIC_LLM_CHAIN = wrapChain(process.env.TOPIC_LLM_CHAIN || 'perplexity:sonar');
+process.env.LLM_RETRIES = '0';
+process.env.FEEDBACK_FILE = path.join(scratchDir, 'feedback.json');
+process.env.ANNOUNCEMENTS_FILE = path.join(scratchDir, 'announcements.json');
+process.env.BIN_DATA_DIR = path.join(process.cwd(), 'data', 'eval', 'bins');
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.RATE_LIMIT_CHAT = '10000/60';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+function requestIdFor(evalCase: EvalCase): string {
+  return `eval-${evalCase.id}`;
+}
+
+// Just enough of Next's request and response for the chat handler
+function callChat(evalCase: EvalCase): Promise<{ status: number; body: ChatReply }> {
+  return new Promise(resolve => {
+    const body: ChatRequestBody = {
+      message: evalCase.question,
+      history: evalCase.history,
+      location: evalCase.location,
+      locale: evalCase.locale
+    };
+    const req = {
+      method: 'POST',
+      body,
+      headers: { 'x-request-id': requestIdFor(evalCase) },
+      socket: { remoteAddress: '127.0.0.1' }
+    } as unknown as NextApiRequest;
+
+    const headers: Record<string, unknown> = {};
+    const res = {
+      statusCode: 200,
+      setHeader: (name: string, value: unknown) => {
+        headers[name.toLowerCase()] = value;
+        return res;
+      },
+      getHeader: (name: string) => headers[name.toLowerCase()],
+      on: () => res,
+      status: (code: number) => {
+        res.statusCode = code;
+        return res;
+      },
+      json: (data: ChatReply) => {
+        resolve({ status: res.statusCode, body: data });
+        return res;
+      },
+      // sendChatError writes the JSON itself
+      end: (text?: string) => {
+        resolve({ status: res.statusCode, body: text ? JSON.parse(text) : {} });
+        return res;
+      }
+    } as unknown as NextApiResponse;
+
+    Promise.resolve(handler(req, res)).catch(error => {
+      resolve({ status: 500, body: { error: String(error), code: 'EXCEPTION' } });
+    });
+  });
+}
+
+function checkFacts(answer: string, facts: (string | string[])[]): string[] {
+  const text = foldText(answer);
+  return facts
+    .filter(fact => {
+      const options = Array.isArray(fact) ? fact : [fact];
+      return !options.some(option => text.indexOf(foldText(option)) !== -1);
+    })
+    .map(fact => `missing fact: ${Array.isArray(fact) ? fact.join(' | ') : fact}`);
+}
+
+// Local guide citations are curated, so only web sources are held to the list
+function checkCitations(citations: Citation[], evalCase: EvalCase): string[] {
+  const problems: string[] = [];
+  const allowed = evalCase.allowedDomains;
+  citations
+    .filter(citation => !citation.local)
+    .forEach(citation => {
+      if (allowed ? !isTrustedDomain(citation.domain, allowed) : !citation.trusted) {
+        problems.push(`citation outside allowed domains: ${citation.url}`);
+      }
+    });
+  if (evalCase.minCitations && citations.length < evalCase.minCitations) {
+    problems.push(`expected at least ${evalCase.minCitations} citations, got ${citations.length}`);
+  }
+  return problems;
+}
+
+async function runCase(evalCase: EvalCase): Promise<CaseResult> {
+  const { status, body } = await callChat(evalCase);
+  const result: CaseResult = { id: evalCase.id, gating: false, problems: [] };
+
+  if (evalCase.expect === 'refuse') {
+    result.gating = status === 422 && (!evalCase.refusalCode || body.code === evalCase.refusalCode);
+    if (!result.gating) {
+      result.problems.push(`expected refusal${evalCase.refusalCode ? ` ${evalCase.refusalCode}` : ''}, got ${status}${body.code ? ` ${body.code}` : ''}`);
+    }
+    return result;
+  }
+
+  result.gating = status === 200;
+  if (!result.gating) {
+    result.problems.push(`expected an answer, got ${status} ${body.code || ''}`.trim());
+    if (!recording && status >= 500 && !loadFixture(requestIdFor(evalCase))) {
+      result.problems.push(`no fixture for ${requestIdFor(evalCase)}; run with --record`);
+    }
+    return result;
+  }
+
+  const source = body.source || 'llm';
+  if (evalCase.source && source !== evalCase.source) {
+    result.problems.push(`expected source ${evalCase.source}, got ${source}`);
+  }
+
+  const factProblems = checkFacts(body.response || '', evalCase.facts || []);
+  result.facts = factProblems.length === 0;
+  const citationProblems = checkCitations(body.citations || [], evalCase);
+  result.citations = citationProblems.length === 0;
+  result.problems.push(...factProblems, ...citationProblems);
+  return result;
+}
+
+function rate(results: CaseResult[], key: 'gating' | 'facts' | 'citations'): string {
+  const checked = results.filter(result => result[key] !== undefined);
+  const passed = checked.filter(result => result[key]).length;
+  const share = checked.length > 0 ? ((passed / checked.length) * 100).toFixed(1) : '-';
+  return `${passed}/${checked.length} (${share}%)`;
+}
+
+async function main() {
+  const { version, cases } = evalSet as EvalSet;
+  const selected = onlyCase ? cases.filter(evalCase => evalCase.id === onlyCase) : cases;
+  if (selected.length === 0) {
+    console.error(`No case with id "${onlyCase}" in data/eval/questions.json`);
+    process.exit(1);
+  }
+
+  const results: CaseResult[] = [];
+  for (let i = 0; i < selected.length; i++) {
+    const result = await runCase(selected[i]);
+    results.push(result);
+    console.log(`${result.problems.length === 0 ? 'PASS' : 'FAIL'}  ${result.id}`);
+    result.problems.forEach(problem => console.log(`      ${problem}`));
+  }
+
+  const failed = results.filter(result => result.problems.length > 0).length;
+  console.log(`\nAnswer evaluation, set v${version}, ${results.length} questions${recording ? ' (recorded live)' : ''}`);
+  console.log(`  gating     ${rate(results, 'gating')}`);
+  console.log(`  facts      ${rate(results, 'facts')}`);
+  console.log(`  citations  ${rate(results, 'citations')}`);
+  console.log(`  ${results.length - failed} passed, ${failed} failed`);
+
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,50 @@
+// Measures the topic gate against the labelled corpus in data/topic-corpus.json.
+// Usage: npm run eval:topics [-- --threshold 2.5]
+import corpus from '../data/topic-corpus.json';
+import { getTopicThreshold, scoreTopic } from '../lib/topicClassifier';
+import type { Locale } from '../lib/i18n';
+
+interface CorpusEntry {
+  query: string;
+  related: boolean;
+  hasHistory?: boolean;
+  locale?: Locale; // the language chosen in the chat, for non-English questions
+}
+
+const thresholdFlag = process.argv.indexOf('--threshold');
+const threshold = thresholdFlag !== -1 ? Number(process.argv[thresholdFlag + 1]) : getTopicThreshold();
+
+let truePositives = 0;
+let falsePositives = 0;
+let falseNegatives = 0;
+let trueNegatives = 0;
+const mistakes: string[] = [];
+
+(corpus as CorpusEntry[]).forEach(entry => {
+  const decision = scoreTopic(entry.query, { hasHistory: !!entry.hasHistory, locale: entry.locale }, threshold);
+
+  if (decision.related && entry.related) truePositives++;
+  else if (decision.related && !entry.related) falsePositives++;
+  else if (!decision.related && entry.related) falseNegatives++;
+  else trueNegatives++;
+
+  if (decision.related !== entry.related) {
+    mistakes.push(
+      `  ${entry.related ? 'refused ' : 'accepted'} (score ${decision.score}, ${decision.rule}): ${entry.query}`
+    );
+  }
+});
+
+const precision = truePositives / Math.max(1, truePositives + falsePositives);
+const recall = truePositives / Math.max(1, truePositives + falseNegatives);
+const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+const total = truePositives + falsePositives + falseNegatives + trueNegatives;
+
+console.log(`Topic classifier, threshold ${threshold}, ${total} labelled questions`);
+console.log(`  precision ${precision.toFixed(3)}  recall ${recall.toFixed(3)}  f1 ${f1.toFixed(3)}`);
+console.log(`  accuracy  ${((truePositives + trueNegatives) / Math.max(1, total)).toFixed(3)}`);
+
+if (mistakes.length > 0) {
+  console.log(`\nMisclassified (${mistakes.length}):`);
+  mistakes.forEach(line => console.log(line));
+}
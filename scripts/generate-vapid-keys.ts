@@ -0,0 +1,10 @@
+// Prints a new VAPID key pair for web push reminders, ready to paste into
+// .env.local. Keep the private key secret; changing the keys later means
+// every browser has to subscribe again.
+// Usage: npm run vapid:keys
+import { generateVapidKeys } from '../lib/webPush';
+
+const keys = generateVapidKeys();
+console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
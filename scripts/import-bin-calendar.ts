@@ -0,0 +1,34 @@
+// Imports a round's collection dates from an iCalendar (.ics) export into
+// calendar.json in the bin data directory (BIN_DATA_DIR, default data/bins), replacing any dates previously imported for it.
+// Usage: npm run import:bins -- --round NS-FRI path/to/collections.ics
+import fs from 'fs';
+import path from 'path';
+import { parseIcsEvents } from '../lib/ical';
+import { BinCollection, binCollectionsFromIcs, getBinDataDir } from '../lib/bins';
+
+const roundFlag = process.argv.indexOf('--round');
+const roundId = roundFlag !== -1 ? process.argv[roundFlag + 1] : undefined;
+const icsPath = process.argv.slice(2).filter((arg, i, all) => arg !== '--round' && all[i - 1] !== '--round')[0];
+
+if (!roundId || !icsPath) {
+  console.error('Usage: npm run import:bins -- --round <round id> <file.ics>');
+  process.exit(1);
+}
+
+const calendarPath = path.join(getBinDataDir(), 'calendar.json');
+const collections = binCollectionsFromIcs(parseIcsEvents(fs.readFileSync(icsPath, 'utf8')));
+
+if (collections.length === 0) {
+  console.error(`No bin collections found in ${icsPath}. Event summaries must name the bin colours.`);
+  process.exit(1);
+}
+
+let calendar: Record<string, BinCollection[]> = {};
+if (fs.existsSync(calendarPath)) {
+  calendar = JSON.parse(fs.readFileSync(calendarPath, 'utf8'));
+}
+
+calendar[roundId] = collections;
+fs.writeFileSync(calendarPath, `${JSON.stringify(calendar, null, 2)}\n`);
+
+console.log(`Imported ${collections.length} collections for ${roundId}: ${collections[0].date} to ${collections[collections.length - 1].date}`);
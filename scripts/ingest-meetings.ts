@@ -0,0 +1,36 @@
+// Imports town council meetings from a saved copy of the council's meetings
+// page (.html) or an iCalendar feed (.ics) into data/meetings/meetings.json.
+// Existing meetings are updated by id; meetings missing from the import are kept.
+// Usage: npm run ingest:meetings -- path/to/meetings-page.html
+import fs from 'fs';
+import path from 'path';
+import { parseIcsEvents } from '../lib/ical';
+import { loadMeetings, meetingsFromIcs, mergeMeetings, parseMeetingsHtml } from '../lib/meetings';
+
+const sourcePath = process.argv[2];
+
+if (!sourcePath) {
+  console.error('Usage: npm run ingest:meetings -- <meetings-page.html | meetings.ics>');
+  process.exit(1);
+}
+
+const meetingsPath = path.join(process.cwd(), 'data', 'meetings', 'meetings.json');
+const source = fs.readFileSync(sourcePath, 'utf8');
+const imported = /\.ics$/i.test(sourcePath) || source.indexOf('BEGIN:VCALENDAR') !== -1
+  ? meetingsFromIcs(parseIcsEvents(source))
+  : parseMeetingsHtml(source);
+
+if (imported.length === 0) {
+  console.error(`No meetings found in ${sourcePath}. Check that the page lists meeting dates.`);
+  process.exit(1);
+}
+
+const existing = loadMeetings(meetingsPath);
+const merged = mergeMeetings(existing, imported);
+fs.writeFileSync(meetingsPath, `${JSON.stringify(merged, null, 2)}\n`);
+
+imported.forEach(meeting => {
+  const links = [meeting.agendaUrl ? 'agenda' : '', meeting.minutesUrl ? 'minutes' : ''].filter(Boolean).join(', ');
+  console.log(`${meeting.date} ${meeting.time || '--:--'} ${meeting.committee}${meeting.venue ? ` @ ${meeting.venue}` : ''}${links ? ` [${links}]` : ''}`);
+});
+console.log(`Imported ${imported.length} meetings (${merged.length - existing.length} new, ${merged.length} total)`);